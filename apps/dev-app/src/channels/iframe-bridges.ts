@@ -1,6 +1,7 @@
 import { Bridge, IChannel } from '@tschannel/core';
 import { IframeChannel } from '@tschannel/iframe-channel';
 import { demoNamespace, messages } from '../namespace';
+import { createLogMiddleware } from '../middlewares/log/log.middleware';
 import type { LogService } from '../middlewares/log/log.service';
 
 // Single channel instance for parent side
@@ -11,18 +12,12 @@ let parentBridge: Bridge<typeof demoNamespace, IChannel<'main'>> | null = null;
 let childChannel: IframeChannel<'worker'> | null = null;
 let childBridge: Bridge<typeof demoNamespace, IChannel<'worker'>> | null = null;
 
-// LogService for logging (set from UI)
-let logService: LogService | null = null;
-
-export const setLogService = (service: LogService | null) => {
-  logService = service;
-};
-
 /**
  * Initialize parent bridge (main side)
  * @param iframe - The iframe element to communicate with
+ * @param logService - Receives all traffic of the parent bridge
  */
-export const initParentBridge = (iframe: HTMLIFrameElement) => {
+export const initParentBridge = (iframe: HTMLIFrameElement, logService: LogService) => {
   parentChannel = new IframeChannel({
     side: 'main',
     iframe: iframe,
@@ -30,43 +25,30 @@ export const initParentBridge = (iframe: HTMLIFrameElement) => {
     expectedOrigin: window.location.origin,
   });
 
+  // Iframe may still be loading, hold requests until its bridge answers the handshake
   parentBridge = new Bridge<typeof demoNamespace, typeof parentChannel>(
     demoNamespace,
-    parentChannel
+    parentChannel,
+    { waitForReady: true }
   );
+  parentBridge.use(createLogMiddleware(logService, 'Main'));
 
   // Setup handlers for Worker → Main messages (parent receives events from iframe)
   parentBridge.listen(messages.notifyParent, async (message) => {
-    logService?.addMessage({ side: 'Worker', type: 'sent', message: `notifyParent: "${message}"` });
     console.log('[Parent] Notification from iframe:', message);
   });
 
   parentBridge.listen(messages.logToParent, async (log: { level: string; message: string }) => {
-    logService?.addMessage({
-      side: 'Worker',
-      type: 'sent',
-      message: `logToParent [${log.level}]: "${log.message}"`,
-    });
     console.log(`[Parent] Log from iframe [${log.level}]:`, log.message);
   });
 
   // Bidirectional handlers (parent can also receive)
   parentBridge.listen(messages.ping, async () => {
-    logService?.addMessage({ side: 'Worker', type: 'sent', message: 'ping from Worker' });
-    const response = 'pong from parent';
-    logService?.addMessage({ side: 'Main', type: 'sent', message: response });
-    return response;
+    return 'pong from parent';
   });
 
   parentBridge.listen(messages.echo, async (text: string) => {
-    logService?.addMessage({
-      side: 'Worker',
-      type: 'sent',
-      message: `echo from Worker: "${text}"`,
-    });
-    const response = `Parent echoes: ${text}`;
-    logService?.addMessage({ side: 'Main', type: 'sent', message: response });
-    return response;
+    return `Parent echoes: ${text}`;
   });
 
   return parentBridge;
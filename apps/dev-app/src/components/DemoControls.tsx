@@ -2,13 +2,11 @@ import { Component, createSignal, Show } from 'solid-js';
 import type { Bridge } from '@tschannel/core';
 import { send } from '../namespace';
 import type { demoNamespace } from '../namespace';
-import { LogService } from '../middlewares/log/log.service';
 
 type Props = {
   bridge: Bridge<typeof demoNamespace, any>;
   bridgeB?: Bridge<typeof demoNamespace, any>;
   channelName: string;
-  logService: LogService;
 };
 
 const DemoControls: Component<Props> = (props) => {
@@ -16,9 +14,7 @@ const DemoControls: Component<Props> = (props) => {
   const [numberInput, setNumberInput] = createSignal('');
   const [userIdInput, setUserIdInput] = createSignal('');
 
-  const addLog = (side: 'Main' | 'Worker', type: 'sent' | 'received', message: string) => {
-    props.logService.addMessage({ side, type, message });
-  };
+  // Traffic and errors are logged by the log middleware of the bridges
 
   // Send text message from Main to Worker
   const handleSendText = async () => {
@@ -26,12 +22,10 @@ const DemoControls: Component<Props> = (props) => {
     if (!text) return;
 
     try {
-      addLog('Main', 'sent', `sendText: "${text}"`);
-      const response = await props.bridge.dispatch(send.sendText(text));
-      addLog('Main', 'received', `Response: "${response}"`);
+      await props.bridge.dispatch(send.sendText(text));
       setTextInput('');
-    } catch (error) {
-      addLog('Main', 'received', `Error: ${error}`);
+    } catch {
+      // Already in the log
     }
   };
 
@@ -41,12 +35,10 @@ const DemoControls: Component<Props> = (props) => {
     if (isNaN(num)) return;
 
     try {
-      addLog('Main', 'sent', `calculateSquare: ${num}`);
-      const response = await props.bridge.dispatch(send.calculateSquare(num));
-      addLog('Main', 'received', `Result: ${response}`);
+      await props.bridge.dispatch(send.calculateSquare(num));
       setNumberInput('');
-    } catch (error) {
-      addLog('Main', 'received', `Error: ${error}`);
+    } catch {
+      // Already in the log
     }
   };
 
@@ -56,23 +48,19 @@ const DemoControls: Component<Props> = (props) => {
     if (!id) return;
 
     try {
-      addLog('Main', 'sent', `getUserData: { id: "${id}" }`);
-      const response = await props.bridge.dispatch(send.getUserData({ id }));
-      addLog('Main', 'received', `User: ${JSON.stringify(response)}`);
+      await props.bridge.dispatch(send.getUserData({ id }));
       setUserIdInput('');
-    } catch (error) {
-      addLog('Main', 'received', `Error: ${error}`);
+    } catch {
+      // Already in the log
     }
   };
 
   // Main → Worker: Ping from Main to Worker
   const handlePing = async () => {
     try {
-      addLog('Main', 'sent', 'ping to Worker');
-      const response = await props.bridge.dispatch(send.ping());
-      addLog('Main', 'received', `Response: "${response}"`);
-    } catch (error) {
-      addLog('Main', 'received', `Error: ${error}`);
+      await props.bridge.dispatch(send.ping());
+    } catch {
+      // Already in the log
     }
   };
 
@@ -80,13 +68,11 @@ const DemoControls: Component<Props> = (props) => {
   const handleNotify = async () => {
     if (!props.bridgeB) return;
     try {
-      addLog('Worker', 'sent', 'notifyParent to Main');
-      await props.bridgeB.dispatch(
+      await props.bridgeB.emit(
         send.notifyParent(`Event at ${new Date().toLocaleTimeString()}`)
       );
-      addLog('Worker', 'sent', 'Notification sent (no response expected)');
-    } catch (error) {
-      addLog('Worker', 'sent', `Error: ${error}`);
+    } catch {
+      // Already in the log
     }
   };
 
@@ -94,16 +80,14 @@ const DemoControls: Component<Props> = (props) => {
   const handleLog = async () => {
     if (!props.bridgeB) return;
     try {
-      addLog('Worker', 'sent', 'logToParent to Main');
-      await props.bridgeB.dispatch(
+      await props.bridgeB.emit(
         send.logToParent({
           level: 'info',
           message: `Worker event at ${new Date().toLocaleTimeString()}`,
         })
       );
-      addLog('Worker', 'sent', 'Log sent (no response expected)');
-    } catch (error) {
-      addLog('Worker', 'sent', `Error: ${error}`);
+    } catch {
+      // Already in the log
     }
   };
 
@@ -111,11 +95,9 @@ const DemoControls: Component<Props> = (props) => {
   const handleEcho = async () => {
     if (!props.bridgeB) return;
     try {
-      addLog('Worker', 'sent', 'echo to Main: "Hello from Worker"');
-      const response = await props.bridgeB.dispatch(send.echo('Hello from Worker'));
-      addLog('Worker', 'received', `Response: "${response}"`);
-    } catch (error) {
-      addLog('Worker', 'received', `Error: ${error}`);
+      await props.bridgeB.dispatch(send.echo('Hello from Worker'));
+    } catch {
+      // Already in the log
     }
   };
 
@@ -123,11 +105,9 @@ const DemoControls: Component<Props> = (props) => {
   const handlePingBack = async () => {
     if (!props.bridgeB) return;
     try {
-      addLog('Worker', 'sent', 'ping to Main');
-      const response = await props.bridgeB.dispatch(send.ping());
-      addLog('Worker', 'received', `Response: "${response}"`);
-    } catch (error) {
-      addLog('Worker', 'received', `Error: ${error}`);
+      await props.bridgeB.dispatch(send.ping());
+    } catch {
+      // Already in the log
     }
   };
 
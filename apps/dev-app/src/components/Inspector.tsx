@@ -0,0 +1,28 @@
+import { Component, onCleanup, onMount } from 'solid-js';
+import { BridgeInspector, mountInspectorPanel } from '@tschannel/devtools';
+
+type Props = {
+  inspector: BridgeInspector;
+};
+
+const Inspector: Component<Props> = (props) => {
+  let containerRef: HTMLDivElement | undefined;
+
+  onMount(() => {
+    if (!containerRef) return;
+    const unmount = mountInspectorPanel(props.inspector, containerRef);
+    onCleanup(unmount);
+  });
+
+  return (
+    <div class="logs-section inspector-section">
+      <div class="logs-header">
+        <h2>Inspector</h2>
+        <button onClick={() => props.inspector.clear()}>Clear</button>
+      </div>
+      <div class="inspector" ref={containerRef} />
+    </div>
+  );
+};
+
+export default Inspector;
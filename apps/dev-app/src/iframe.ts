@@ -16,7 +16,7 @@ try {
   if (notifyBtn) {
     notifyBtn.addEventListener('click', async () => {
       try {
-        await bridge.dispatch(
+        await bridge.emit(
           send.notifyParent(`Important event at ${new Date().toLocaleTimeString()}`)
         );
         console.log('[Iframe] Sent notification to parent');
@@ -30,7 +30,7 @@ try {
   if (logBtn) {
     logBtn.addEventListener('click', async () => {
       try {
-        await bridge.dispatch(
+        await bridge.emit(
           send.logToParent({
             level: 'info',
             message: `Iframe event at ${new Date().toLocaleTimeString()}`,
@@ -0,0 +1,32 @@
+import type { TMiddleware } from '@tschannel/core';
+import {
+  CallbackSink,
+  ConsoleSink,
+  createLoggerMiddleware,
+  formatLogEntry,
+} from '@tschannel/logger';
+import type { LogService, TLogMessage } from './log.service';
+
+/**
+ * Logs all traffic of a bridge to the console and the on-page log
+ */
+export const createLogMiddleware = (
+  logService: LogService,
+  side: TLogMessage['side']
+): TMiddleware =>
+  createLoggerMiddleware({
+    label: side,
+    redact: ['email'],
+    sinks: [
+      new ConsoleSink(),
+      new CallbackSink((entry) => {
+        const isSent = (entry.direction === 'outgoing') === (entry.stage === 'request');
+        const payload = 'payload' in entry ? ` ${JSON.stringify(entry.payload) ?? ''}` : '';
+        logService.addMessage({
+          side,
+          type: isSent ? 'sent' : 'received',
+          message: `${formatLogEntry({ ...entry, label: undefined })}${payload}`,
+        });
+      }),
+    ],
+  });
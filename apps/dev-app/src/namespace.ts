@@ -15,9 +15,9 @@ export const demoNamespace = new NamespaceBuilder('demo')
   .mainToWorkerMessage<number, number>()('calculateSquare')
   .mainToWorkerMessage<{ id: string }, TUser>()('getUserData')
 
-  // Worker → Main messages (events from child to parent)
-  .workerToMainMessage<string, void>()('notifyParent')
-  .workerToMainMessage<{ level: string; message: string }, void>()('logToParent')
+  // Worker → Main events (fire-and-forget notifications from child to parent)
+  .workerToMainEvent<string>()('notifyParent')
+  .workerToMainEvent<{ level: string; message: string }>()('logToParent')
 
   // Bidirectional messages (can be sent from either side)
   .bidirectionalMessage<void, string>()('ping')
@@ -1,25 +1,26 @@
 import { Component, createSignal, onMount, onCleanup, Show } from 'solid-js';
 import DemoControls from '../components/DemoControls';
+import Inspector from '../components/Inspector';
 import Log from '../components/Log';
-import { initParentBridge, cleanup, setLogService } from '../channels/iframe-bridges';
+import { initParentBridge, cleanup } from '../channels/iframe-bridges';
 import type { Bridge, IChannel } from '@tschannel/core';
+import { BridgeInspector } from '@tschannel/devtools';
 import type { demoNamespace } from '../namespace';
 import { LogService } from '../middlewares/log/log.service';
 
 const IframeDemo: Component = () => {
   const [bridge, setBridge] = createSignal<Bridge<typeof demoNamespace, IChannel<'main'>> | null>(null);
   const logService = new LogService();
+  const inspector = new BridgeInspector();
   let iframeRef: HTMLIFrameElement | undefined;
 
   onMount(() => {
-    // Set LogService for iframe-bridges handlers
-    setLogService(logService);
-
     // Wait for iframe to load
     const timer = setTimeout(() => {
       if (iframeRef) {
         try {
-          const parentBridge = initParentBridge(iframeRef);
+          const parentBridge = initParentBridge(iframeRef, logService);
+          inspector.attach(parentBridge, 'Main');
           setBridge(parentBridge);
         } catch (error) {
           console.error('Failed to initialize parent bridge:', error);
@@ -32,7 +33,7 @@ const IframeDemo: Component = () => {
 
   onCleanup(() => {
     cleanup();
-    setLogService(null);
+    inspector.destroy();
     logService.destroy();
   });
 
@@ -57,8 +58,9 @@ const IframeDemo: Component = () => {
       <Show when={bridge()} fallback={<div class="loading">Initializing iframe bridge...</div>}>
         {(b) => (
           <>
-            <DemoControls bridge={b()} channelName="IframeChannel" logService={logService} />
+            <DemoControls bridge={b()} channelName="IframeChannel" />
             <Log logService={logService} />
+            <Inspector inspector={inspector} />
           </>
         )}
       </Show>
@@ -1,54 +1,37 @@
-import { Component, onCleanup, onMount } from 'solid-js';
+import { Component, onCleanup } from 'solid-js';
 import DemoControls from '../components/DemoControls';
+import Inspector from '../components/Inspector';
 import Log from '../components/Log';
 import { bridgeA, bridgeB, cleanup } from '../channels/pubsub-bridges';
+import { BridgeInspector } from '@tschannel/devtools';
+import { createLogMiddleware } from '../middlewares/log/log.middleware';
 import { LogService } from '../middlewares/log/log.service';
-import { messages } from '../namespace';
 
 const PubSubDemo: Component = () => {
   const logService = new LogService();
 
-  onMount(() => {
-    // Setup listeners for Worker → Main messages to log them
-    bridgeA.listen(messages.notifyParent, async (message: string) => {
-      logService.addMessage({ side: 'Worker', type: 'sent', message: `notifyParent: "${message}"` });
-      console.log('[Bridge A] Notification from B:', message);
-    });
+  // Log traffic of both sides, each message shows up once per side
+  const removeLogMiddleware = [
+    bridgeA.use(createLogMiddleware(logService, 'Main')),
+    bridgeB.use(createLogMiddleware(logService, 'Worker')),
+  ];
 
-    bridgeA.listen(messages.logToParent, async (log: { level: string; message: string }) => {
-      logService.addMessage({
-        side: 'Worker',
-        type: 'sent',
-        message: `logToParent [${log.level}]: "${log.message}"`,
-      });
-      console.log(`[Bridge A] Log from B [${log.level}]:`, log.message);
-    });
-
-    // Setup listeners for Bidirectional messages from Worker
-    bridgeA.listen(messages.ping, async () => {
-      logService.addMessage({ side: 'Worker', type: 'sent', message: 'ping from Worker' });
-      const response = 'pong from Main';
-      logService.addMessage({ side: 'Main', type: 'sent', message: response });
-      return response;
-    });
-
-    bridgeA.listen(messages.echo, async (text: string) => {
-      logService.addMessage({ side: 'Worker', type: 'sent', message: `echo from Worker: "${text}"` });
-      const response = `Main echoes: ${text}`;
-      logService.addMessage({ side: 'Main', type: 'sent', message: response });
-      return response;
-    });
-  });
+  const inspector = new BridgeInspector();
+  inspector.attach(bridgeA, 'Main');
+  inspector.attach(bridgeB, 'Worker');
 
   onCleanup(() => {
+    removeLogMiddleware.forEach((remove) => remove());
+    inspector.destroy();
     cleanup();
     logService.destroy();
   });
 
   return (
     <>
-      <DemoControls bridge={bridgeA} bridgeB={bridgeB} channelName="PubSubChannel" logService={logService} />
+      <DemoControls bridge={bridgeA} bridgeB={bridgeB} channelName="PubSubChannel" />
       <Log logService={logService} />
+      <Inspector inspector={inspector} />
     </>
   );
 };
@@ -8,15 +8,16 @@ import typescript from 'rollup-plugin-typescript2';
  * @param {string} packageDir - Path to package directory (e.g., 'packages/core')
  * @param {Object} options - Additional options
  * @param {string[]} options.external - External dependencies (peer dependencies)
+ * @param {string} options.entry - Entry file name in src/ and dist/, 'index' by default
  * @returns {import('rollup').RollupOptions}
  */
 export function createRollupConfig(packageDir, options = {}) {
-  const { external = [] } = options;
+  const { external = [], entry = 'index' } = options;
 
   return {
-    input: `${packageDir}/src/index.ts`,
+    input: `${packageDir}/src/${entry}.ts`,
     output: {
-      file: `${packageDir}/dist/index.js`,
+      file: `${packageDir}/dist/${entry}.js`,
       format: 'esm',
       sourcemap: true,
     },
@@ -39,8 +40,8 @@ export function createRollupConfig(packageDir, options = {}) {
       }),
     ],
     external: [
-      // Peer dependencies should be external
-      /@bridge-kit\/.*/,
+      // Peer dependencies should be external, bundled core would duplicate Bridge and error classes
+      /@tschannel\/.*/,
       ...external,
     ],
   };
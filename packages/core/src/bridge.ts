@@ -1,62 +1,190 @@
-import type { NamespaceMessages, TMessageBase, TMessageToListen, TMessageToSend } from './builder';
+import type {
+  NamespaceMessages,
+  TMessageBase,
+  TMessageKindOf,
+  TMessageOptions,
+  TMessageToListen,
+  TMessageToSend,
+} from './builder';
 import type { IChannel } from './channel';
-import type { TBridgeSide, TInternalMessage, TMessageDirection } from './types';
-import { generateMessageId } from './utils';
+import { type TBridgeClient, createClient } from './client';
+import { type TContractDiff, type TContractMismatchReaction, diffContracts } from './contract';
+import {
+  BridgeError,
+  BridgeRemoteError,
+  BridgeValidationError,
+  type TErrorSerializer,
+  type TRemoteErrorOf,
+  type TValidationErrorData,
+  createTimeoutError,
+  deserializeError,
+  serializeError,
+} from './errors';
+import type {
+  TBridgeImplementation,
+  TExactImplementation,
+  TMessageHandler,
+} from './implementation';
+import { type TRetryPolicy, type TRetryReason, resolveRetryPolicy } from './retry';
+import {
+  HANDSHAKE_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  negotiateProtocol,
+} from './protocol';
+import {
+  type TBridgeMiddleware,
+  type TMessageHooks,
+  type TMessageMiddleware,
+  type TMiddleware,
+  type TMiddlewareContext,
+  type TMiddlewareScope,
+  createHookMiddleware,
+  createMiddlewareContext,
+  isInScope,
+  runMiddleware,
+} from './middleware';
+import { validateSchema } from './schema';
+import { StreamQueue, deferAsyncIterable } from './stream';
+import type {
+  TBridgeSide,
+  THeaders,
+  TInternalMessage,
+  TMessageDirection,
+  TMessageKind,
+} from './types';
+import {
+  canSendFromSide,
+  createAbortError,
+  createDeferred,
+  generateMessageId,
+  rethrowAsync,
+} from './utils';
 
 /**
  * Configuration for Bridge
  */
 export type TBridgeConfig = {
-  timeout?: number;
-  retries?: number;
+  /**
+   * Default timeout in ms for messages without their own timeout, `false` disables it.
+   * @default 10000
+   */
+  timeout?: number | false;
+  /**
+   * Retry policy for failed requests.
+   * A number means "retry timed out requests N times without delay".
+   */
+  retries?: number | TRetryPolicy;
+  /**
+   * Queue dispatched messages until the handshake with the remote bridge completes
+   * instead of failing with CHANNEL_NOT_READY. Waiting counts towards the message timeout.
+   * @default false
+   */
+  waitForReady?: boolean;
+  /**
+   * Converts errors thrown by handlers into the shape sent to the caller.
+   * Override to hide stacks or internal data from the remote side.
+   * @default serializeError
+   */
+  serializeError?: TErrorSerializer;
+  /**
+   * Reaction to remote namespace definitions that differ from the local ones (compared on connect
+   * and again when a reconnected peer brings another definition):
+   * 'ignore' connects silently, 'warn' logs the differing messages with console.warn,
+   * 'reject' fails the connection with CONTRACT_MISMATCH, a function receives the differences.
+   * The bridge connects unless rejected.
+   * @default 'ignore'
+   */
+  onContractMismatch?: TContractMismatchReaction;
+  /**
+   * Receives errors that can't be passed to a caller, e.g. thrown by a frame listener.
+   * The bridge keeps working after reporting them.
+   * @default rethrows the error asynchronously, like errors of event listeners
+   */
+  reportError?: TErrorReporter;
 };
 
 /**
- * Middleware for Bridge message processing
+ * Receives errors the bridge can't pass to a caller, see TBridgeConfig.reportError
  */
-export type TBridgeMiddleware = {
-  // Outgoing messages (dispatch)
-  onBeforeSend?(
-    namespace: string,
-    messageName: string,
-    request: unknown
-  ): unknown | Promise<unknown>;
-  onAfterReceive?(
-    namespace: string,
-    messageName: string,
-    response: unknown
-  ): unknown | Promise<unknown>;
+export type TErrorReporter = (error: unknown) => void;
 
-  // Incoming messages (listen)
-  onBeforeHandle?(
-    namespace: string,
-    messageName: string,
-    request: unknown
-  ): unknown | Promise<unknown>;
-  onAfterHandle?(
-    namespace: string,
-    messageName: string,
-    response: unknown
-  ): unknown | Promise<unknown>;
+/**
+ * Options for a single Bridge.dispatch call
+ */
+export type TDispatchOptions = {
+  /** Overrides bridge-level retry policy for this call */
+  retries?: number | TRetryPolicy;
+  /** Overrides message and bridge timeout for this call, `false` disables it */
+  timeout?: number | false;
+  /** Overrides bridge-level waitForReady for this call */
+  waitForReady?: boolean;
+  /** Sent with the request, middleware can add more in onBeforeSend */
+  headers?: THeaders;
+  /**
+   * Abandons the call: dispatch rejects with AbortError (streams fail with it)
+   * and the remote handler receives abort through its context signal
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for a single Bridge.emit call
+ */
+export type TEmitOptions = Pick<TDispatchOptions, 'headers'>;
 
-  // Common
-  onError?(namespace: string, messageName: string, error: Error): void;
+/**
+ * Context passed to message handlers as the second argument
+ */
+export type THandlerContext<
+  TNamespaceName extends string = string,
+  TMessageName extends string = string,
+> = {
+  /** Id of the received frame, same as on the sending side */
+  id: string;
+  namespace: TNamespaceName;
+  name: TMessageName;
+  /** Side of the bridge that sent the message */
+  sender: TBridgeSide;
+  /** Headers sent with the message */
+  headers: Readonly<THeaders>;
+  /**
+   * Time (ms since epoch) after which the caller stops waiting for the answer.
+   * Undefined for calls without timeout, streams (timeout applies between chunks) and events.
+   */
+  deadline?: number;
+  /** Aborted when the requesting side cancels the call or the bridge is destroyed */
+  signal: AbortSignal;
 };
 
-type TMessagePayloadFromNamespace<T> =
+/**
+ * Observes raw frames of the bridge, see Bridge.onFrame
+ * - 'sent' - frame passed to the channel
+ * - 'received' - frame of this namespace received from the other side
+ */
+export type TFrameListener = (frame: TInternalMessage, direction: 'sent' | 'received') => void;
+
+type TSendPayloadFromNamespace<T, TKind extends TMessageKind> =
   T extends NamespaceMessages<infer TNamespaceName, infer TMessages>
     ? {
         [K in keyof TMessages]: K extends string
-          ? TMessageToSend<
-              TNamespaceName,
-              K,
-              TMessages[K]['request'],
-              TMessages[K]['meta']['direction']
-            >
+          ? TMessageKindOf<TMessages[K]> extends TKind
+            ? TMessageToSend<
+                TNamespaceName,
+                K,
+                TMessages[K]['request'],
+                TMessages[K]['meta']['direction'],
+                TMessageKindOf<TMessages[K]>
+              >
+            : never
           : never;
       }[keyof TMessages]
     : never;
 
+type TMessagePayloadFromNamespace<T> = TSendPayloadFromNamespace<T, 'request' | 'stream'>;
+
+type TEventPayloadFromNamespace<T> = TSendPayloadFromNamespace<T, 'event'>;
+
 type TMessageResponseFromNamespace<TMessageName, Namespace> =
   Namespace extends NamespaceMessages<infer _, infer TMessages>
     ? TMessageName extends keyof TMessages
@@ -64,30 +192,133 @@ type TMessageResponseFromNamespace<TMessageName, Namespace> =
       : never
     : never;
 
+type TMessageErrorFromNamespace<TMessageName, Namespace> =
+  Namespace extends NamespaceMessages<infer _, infer TMessages>
+    ? TMessageName extends keyof TMessages
+      ? TRemoteErrorOf<TMessages[TMessageName]['errors']>
+      : never
+    : never;
+
+// Streams resolve to AsyncIterable of chunks, other messages to a single response
+type TDispatchResultFromNamespace<TMessageName, Namespace> =
+  Namespace extends NamespaceMessages<infer _, infer TMessages>
+    ? TMessageName extends keyof TMessages
+      ? TMessageKindOf<TMessages[TMessageName]> extends 'stream'
+        ? AsyncIterable<TMessageResponseFromNamespace<TMessageName, Namespace>>
+        : Promise<TMessageResponseFromNamespace<TMessageName, Namespace>>
+      : never
+    : never;
+
 type TMessageAnnotationFromNamespace<T> =
   T extends NamespaceMessages<infer TNamespaceName, infer TMessages>
     ? {
         [K in keyof TMessages]: K extends string
-          ? TMessageToListen<TNamespaceName, K, TMessages[K]['meta']['direction']>
+          ? TMessageToListen<
+              TNamespaceName,
+              K,
+              TMessages[K]['meta']['direction'],
+              TMessageKindOf<TMessages[K]>
+            >
           : 'WRONG 2';
       }[keyof TMessages]
     : '__message_doesnt_extends_namespace_messages__';
 
-type TMessageCallback<T, TMessageType> = TMessageType extends { name: infer K }
-  ? T extends NamespaceMessages<infer _, infer TMessages>
+type TMessageCallback<T, TMessageType> = TMessageType extends { name: infer K extends string }
+  ? T extends NamespaceMessages<infer TNamespaceName, infer TMessages>
+    ? K extends keyof TMessages
+      ? TMessageHandler<TMessages[K], THandlerContext<TNamespaceName, K>>
+      : '__message_not_from_namespace__'
+    : '__invalid_namespace_passed__'
+  : '__invalid_message_passed__';
+
+type TMessageMiddlewareFromNamespace<T, TMessageType> = TMessageType extends {
+  name: infer K extends string;
+}
+  ? T extends NamespaceMessages<infer TNamespaceName, infer TMessages>
     ? K extends keyof TMessages
-      ? (
-          payload: TMessages[K]['request']
-        ) => TMessages[K]['response'] | Promise<TMessages[K]['response']>
+      ?
+          | TMessageMiddleware<TNamespaceName, K, TMessages[K]>
+          | TMessageHooks<TNamespaceName, K, TMessages[K]>
       : '__message_not_from_namespace__'
     : '__invalid_namespace_passed__'
   : '__invalid_message_passed__';
 
 const DEFAULT_TIMEOUT = 10000;
-const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRIES = 0;
+// How many handled idempotency keys are remembered for deduplication
+const MAX_REMEMBERED_REQUESTS = 100;
 
 type TTimeout = ReturnType<typeof setTimeout>;
 
+// 'local' failures (bridge destroyed, channel errors) are never retried
+type TAttemptFailureReason = TRetryReason | 'local';
+
+type TAttemptResult =
+  | { ok: true; data: unknown; headers: THeaders }
+  | { ok: false; error: Error; reason: TAttemptFailureReason };
+
+type TRequestOutcome =
+  | { ok: true; data: unknown; headers: THeaders }
+  | { ok: false; error: unknown };
+
+// Response with headers sent by the remote side
+type TResponse = { data: unknown; headers: THeaders };
+
+type THandler = (data: unknown, context: THandlerContext) => unknown;
+
+// Per-call settings shared by requests and streams
+type TCallOptions = {
+  timeout: number | false;
+  signal?: AbortSignal;
+  waitForReady: boolean;
+  /** ms since epoch, the timeout of the call counts from it */
+  dispatchedAt: number;
+};
+
+type TRequestOptions = TCallOptions & {
+  retries: TRetryPolicy;
+};
+
+type TRequestAttempt = Omit<TCallOptions, 'waitForReady' | 'dispatchedAt'> & {
+  messageName: string;
+  data: unknown;
+  headers: THeaders;
+  idempotencyKey: string;
+};
+
+// Handler execution shared by all deliveries with the same idempotency key
+type THandledRequest = {
+  outcome: Promise<TRequestOutcome>;
+  controller: AbortController;
+};
+
+type TRequestMessage = Extract<TInternalMessage, { type: 'request' }>;
+
+// Stream opened by this bridge with dispatch()
+type TStreamConsumer = {
+  messageName: string;
+  queue: StreamQueue<unknown>;
+  timeout: number | false;
+  timer?: TTimeout;
+  // Removes abort listener of the dispatch signal
+  detach?(): void;
+};
+
+// Stream served by a local handler, iterator is set once the handler is called
+type TStreamProducer = {
+  iterator?: AsyncIterator<unknown>;
+  controller: AbortController;
+};
+
+// Hook object middleware is kept for its onError hook
+type TMiddlewareEntry = {
+  middleware: TMiddleware;
+  hooks?: TBridgeMiddleware;
+  scope?: TMiddlewareScope;
+};
+
+type TControlFrame = { type: 'chunk'; data: unknown } | { type: 'end' } | { type: 'cancel' };
+
 function isMessageInstance<TMessageName extends string>(
   message: unknown
 ): message is TMessageBase<TMessageName, TMessageName> {
@@ -102,12 +333,66 @@ function isMessageInstance<TMessageName extends string>(
 
 function isMessageForSend<Namespace extends string, TMessageName extends string>(
   message: unknown
-): message is TMessageToSend<Namespace, TMessageName> {
+): message is TMessageToSend<Namespace, TMessageName, unknown, TMessageDirection> {
   return (
     isMessageInstance(message) && message.hasOwnProperty('meta') && message.meta.type === 'forSend'
   );
 }
 
+/**
+ * Start timer unless timeout is disabled
+ */
+function startTimeout(timeout: number | false, onTimeout: () => void): TTimeout | undefined {
+  return timeout === false ? undefined : setTimeout(onTimeout, timeout);
+}
+
+function createProtocolError(remoteVersions: ReadonlyArray<number>): BridgeError {
+  return new BridgeError(
+    'PROTOCOL_MISMATCH',
+    Bridge.ERRORS.PROTOCOL_MISMATCH(SUPPORTED_PROTOCOL_VERSIONS, remoteVersions),
+    { local: SUPPORTED_PROTOCOL_VERSIONS.slice(), remote: remoteVersions.slice() }
+  );
+}
+
+function isHandshakeFrame(
+  frame: TInternalMessage
+): frame is Extract<TInternalMessage, { type: 'hello' | 'ack' }> {
+  return frame.type === 'hello' || frame.type === 'ack';
+}
+
+/**
+ * Headers field of a frame, empty headers are not sent
+ */
+function getHeadersField(headers: THeaders): { headers?: THeaders } {
+  return Object.keys(headers).length > 0 ? { headers } : {};
+}
+
+/**
+ * Part of the timeout not spent yet, e.g. waiting for the handshake
+ */
+function getTimeLeft(timeout: number | false, since: number): number | false {
+  return timeout === false ? false : Math.max(timeout - (Date.now() - since), 0);
+}
+
+function getAbortError(messageName: string, signal?: AbortSignal): Error | null {
+  return signal?.aborted ? createAbortError(Bridge.ERRORS.ABORTED(messageName)) : null;
+}
+
+function getMessageKind(message: TMessageBase<string, string>): TMessageKind {
+  return message.meta.kind ?? 'request';
+}
+
+function getStreamResponse(messageName: string, response: unknown): AsyncIterable<unknown> {
+  if (
+    typeof response !== 'object' ||
+    response === null ||
+    typeof (response as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator] !== 'function'
+  ) {
+    throw new Error(Bridge.ERRORS.INVALID_STREAM_RESPONSE(messageName));
+  }
+  return response as AsyncIterable<unknown>;
+}
+
 function isMessageForListen<Namespace extends string, TMessageName extends string>(
   message: unknown
 ): message is TMessageToListen<Namespace, TMessageName> {
@@ -142,15 +427,56 @@ export class Bridge<Namespace extends NamespaceMessages, TChannel extends IChann
     UNKNOWN: 'Unknown error',
     INVALID_MESSAGE_TYPE: (messageType: string, expectedMethod: string): string =>
       `Message type '${messageType}, use ${expectedMethod} instead'`,
+    INVALID_MESSAGE_KIND: (messageName: string, kind: string, expectedMethod: string): string =>
+      `Message '${messageName}' is ${kind}, use ${expectedMethod} instead`,
+    ABORTED: (messageName: string): string => `Message aborted: ${messageName}`,
+    INVALID_STREAM_RESPONSE: (messageName: string): string =>
+      `Stream '${messageName}' must respond with an AsyncIterable`,
+    INVALID_IMPLEMENTATION: (missing: Array<string>, unexpected: Array<string>): string =>
+      `Handlers don't match received messages, missing: [${missing.join(', ')}], unexpected: [${unexpected.join(', ')}]`,
+    PROTOCOL_MISMATCH: (local: ReadonlyArray<number>, remote: ReadonlyArray<number>): string =>
+      `No common protocol version, supported: ${local.join(', ')}, remote: ${remote.join(', ')}`,
+    CONTRACT_MISMATCH: (namespace: string, diff: TContractDiff): string =>
+      `Namespace '${namespace}' differs from the remote definition, ` +
+      `missing remotely: [${diff.missingRemotely.join(', ')}], ` +
+      `missing locally: [${diff.missingLocally.join(', ')}], changed: [${diff.changed.join(', ')}]`,
   };
 
   private pendingRequests = new Map<
     string,
-    { resolve(value: unknown): void; reject(error: Error): void; timer: TTimeout }
+    {
+      resolve(value: unknown, headers: THeaders): void;
+      reject(error: Error, reason: TAttemptFailureReason): void;
+      timer?: TTimeout;
+    }
   >();
-  private messageHandlers = new Map<string, (data: unknown) => Promise<unknown>>();
-  private middleware: Array<TBridgeMiddleware> = [];
-  private config: Required<TBridgeConfig>;
+  private retryDelays = new Map<TTimeout, () => void>();
+  private handledRequests = new Map<string, THandledRequest>();
+  // Incoming requests being handled, by message id
+  private activeRequests = new Map<string, AbortController>();
+  private streamConsumers = new Map<string, TStreamConsumer>();
+  private streamProducers = new Map<string, TStreamProducer>();
+  private messageHandlers = new Map<string, THandler>();
+  private middleware: Array<TMiddlewareEntry> = [];
+  private frameListeners: Array<TFrameListener> = [];
+  private config: {
+    timeout: number | false;
+    retries: TRetryPolicy;
+    waitForReady: boolean;
+    serializeError: TErrorSerializer;
+    onContractMismatch: TContractMismatchReaction;
+    reportError: TErrorReporter;
+  };
+  // Settles once the remote bridge answered the handshake
+  private connection = createDeferred<void>();
+  private isConnected = false;
+  // Negotiated during the handshake
+  private protocolVersion = PROTOCOL_VERSION;
+  private clientCache?: TBridgeClient<Namespace, TChannel['side']>;
+  // Set when the handshake fails: no common protocol version or rejected namespace contract
+  private connectionError: BridgeError | null = null;
+  // Contract of the remote bridge from the last handshake, a reconnected peer may bring another one
+  private remoteFingerprint?: string;
 
   constructor(
     private namespace: Namespace,
@@ -159,14 +485,21 @@ export class Bridge<Namespace extends NamespaceMessages, TChannel extends IChann
   ) {
     this.config = {
       timeout: config.timeout ?? DEFAULT_TIMEOUT,
-      retries: config.retries ?? DEFAULT_RETRIES,
+      retries: resolveRetryPolicy(config.retries ?? DEFAULT_RETRIES),
+      waitForReady: config.waitForReady ?? false,
+      serializeError: config.serializeError ?? serializeError,
+      onContractMismatch: config.onContractMismatch ?? 'ignore',
+      reportError: config.reportError ?? rethrowAsync,
     };
+    // ready() is optional, destroy() must not produce unhandled rejection
+    this.connection.promise.catch(() => undefined);
 
     void this.initializeChannel();
   }
 
   /**
-   * Dispatch a message and wait for response
+   * Dispatch a message and wait for response.
+   * For stream messages returns AsyncIterable of chunks, timeout is applied between chunks.
    * message: TChannel extends IChannel<TBridgeSide>
    *       ? TMessage['meta']['direction'] extends `${TBridgeSide}To${infer _}` | 'bidirectional'
    *         ? TMessage
@@ -174,95 +507,119 @@ export class Bridge<Namespace extends NamespaceMessages, TChannel extends IChann
    *       : '__invalid_bridge_channel__'
    */
   dispatch<TMessage extends TMessagePayloadFromNamespace<Namespace>>(
-    message: TMessage
-  ): Promise<TMessageResponseFromNamespace<TMessage['name'], Namespace>> {
+    message: TMessage,
+    options: TDispatchOptions = {}
+  ): TDispatchResultFromNamespace<TMessage['name'], Namespace> {
+    const shouldWaitForReady = options.waitForReady ?? this.config.waitForReady;
+    const validationError = this.getOutgoingMessageError(
+      message,
+      ['request', 'stream'],
+      shouldWaitForReady
+    );
+    const callOptions: TCallOptions = {
+      timeout: this.resolveTimeout(message.name, options.timeout),
+      signal: options.signal,
+      waitForReady: shouldWaitForReady,
+      dispatchedAt: Date.now(),
+    };
+
+    if (isMessageInstance(message) && getMessageKind(message) === 'stream') {
+      return this.openStream(
+        message as TMessageToSend<string, string>,
+        validationError ?? getAbortError(message.name, options.signal),
+        { ...callOptions, headers: { ...options.headers } }
+      ) as TDispatchResultFromNamespace<TMessage['name'], Namespace>;
+    }
+
     return new Promise<TMessageResponseFromNamespace<TMessage['name'], Namespace>>(
       (resolve, reject) => {
-        if (!this.channel.isReady()) {
-          reject(new Error(Bridge.ERRORS.CHANNEL_NOT_READY));
+        const error = validationError ?? getAbortError(message.name, options.signal);
+        if (error) {
+          reject(error);
           return;
         }
 
-        if (!isMessageInstance<TMessage['name']>(message)) {
-          reject(new Error(Bridge.ERRORS.INVALID_MESSAGE_INSTANCE));
-          return;
-        }
+        const retryPolicy =
+          options.retries !== undefined ? resolveRetryPolicy(options.retries) : this.config.retries;
 
-        if (!isMessageForSend<Namespace['namespaceName'], TMessage['name']>(message)) {
-          reject(Bridge.ERRORS.INVALID_MESSAGE_TYPE(message.meta.type, '.send.%message%'));
-          return;
-        }
+        const ctx = this.createDispatchContext(message as TMessageToSend<string, string>, {
+          ...options.headers,
+        });
 
-        if (message.namespace !== this.namespace.namespaceName) {
-          reject(
-            new Error(
-              Bridge.ERRORS.NAMESPACE_MISMATCH(message.namespace, this.namespace.namespaceName)
-            )
-          );
-          return;
-        }
+        this.applyMiddleware(ctx, () =>
+          this.requestWithRetry(ctx, { ...callOptions, retries: retryPolicy }).then((response) => {
+            ctx.response = response.data;
+            ctx.responseHeaders = response.headers;
+          })
+        )
+          .then(() => this.validateResponse(message.name, ctx.response))
+          .then(resolve as (response: unknown) => void)
+          .catch(reject);
+      }
+    ) as TDispatchResultFromNamespace<TMessage['name'], Namespace>;
+  }
 
-        // Validate message direction
-        const bridgeSide = this.channel.side;
-        const messageDirection: TMessageDirection = message.meta.direction;
+  /**
+   * Send a fire-and-forget event.
+   * Resolves as soon as the event is passed to the channel, no answer is expected.
+   */
+  emit<TMessage extends TEventPayloadFromNamespace<Namespace>>(
+    message: TMessage,
+    options: TEmitOptions = {}
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const error = this.getOutgoingMessageError(message, ['event']);
+      if (error) {
+        reject(error);
+        return;
+      }
 
-        // Check if message can be sent from this bridge side
-        const canSend =
-          messageDirection === 'bidirectional' ||
-          (bridgeSide === 'main' && messageDirection === 'mainToWorker') ||
-          (bridgeSide === 'worker' && messageDirection === 'workerToMain');
+      const { name } = message as TMessageToSend<string, string>;
+      const ctx = this.createDispatchContext(message as TMessageToSend<string, string>, {
+        ...options.headers,
+      });
 
-        if (!canSend) {
-          reject(
-            new Error(Bridge.ERRORS.INVALID_DIRECTION(message.name, messageDirection, bridgeSide))
-          );
-          return;
-        }
+      this.applyMiddleware(ctx, () => {
+        this.postFrame({
+          id: ctx.id,
+          namespace: this.namespace.namespaceName,
+          name,
+          sender: this.channel.side,
+          type: 'event',
+          data: ctx.request,
+          ...getHeadersField(ctx.headers),
+        });
+        return Promise.resolve();
+      })
+        .then(() => {
+          resolve();
+        })
+        .catch((sendError: Error) => {
+          this.applyErrorMiddleware(name, sendError);
+          reject(sendError);
+        });
+    });
+  }
 
-        const messageId = generateMessageId(this.namespace.namespaceName);
-
-        // Apply onBeforeSend middleware
-        this.applyBeforeSendMiddleware(message.name, message.payload)
-          .then((processedData) => {
-            const internalMessage: TInternalMessage = {
-              id: messageId,
-              namespace: this.namespace.namespaceName,
-              name: message.name,
-              sender: this.channel.side,
-              type: 'request',
-              data: processedData,
-            };
-
-            // Set timeout
-            const timer = setTimeout(() => {
-              if (this.pendingRequests.has(messageId)) {
-                const error = new Error(Bridge.ERRORS.TIMEOUT(message.name));
-                this.pendingRequests.get(messageId)!.reject(error);
-                this.pendingRequests.delete(messageId);
-              }
-            }, this.config.timeout);
-
-            this.pendingRequests.set(messageId, {
-              resolve: (response: unknown) => {
-                clearTimeout(timer);
-                this.applyAfterReceiveMiddleware(message.name, response)
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  .then(resolve as (response: unknown) => void)
-                  .catch(reject);
-              },
-              reject: (error: Error) => {
-                clearTimeout(timer);
-                this.applyErrorMiddleware(message.name, error);
-                reject(error);
-              },
-              timer,
-            });
-
-            this.channel.send(internalMessage);
-          })
-          .catch(reject);
-      }
-    );
+  /**
+   * Typed methods for messages this bridge side can send, a shorthand for dispatch and emit
+   *
+   * @example
+   * ```typescript
+   * const user = await bridge.client.getUserData({ id: '42' }, { timeout: 5000 });
+   * for await (const result of bridge.client.search({ query })) { ... }
+   * ```
+   */
+  get client(): TBridgeClient<Namespace, TChannel['side']> {
+    if (!this.clientCache) {
+      this.clientCache = createClient(this.namespace, this.channel.side, {
+        dispatch: (message, options) =>
+          this.dispatch(message as TMessagePayloadFromNamespace<Namespace>, options),
+        emit: (message, options) =>
+          this.emit(message as TEventPayloadFromNamespace<Namespace>, options),
+      });
+    }
+    return this.clientCache;
   }
 
   /**
@@ -272,34 +629,132 @@ export class Bridge<Namespace extends NamespaceMessages, TChannel extends IChann
     messageType: TMessage,
     handler: TMessageCallback<Namespace, TMessage>
   ): () => void {
-    if (!isMessageInstance<TMessage['name']>(messageType)) {
-      throw new Error(Bridge.ERRORS.INVALID_MESSAGE_INSTANCE);
-    }
+    this.assertMessageIdentifier(messageType);
 
-    if (!isMessageForListen(messageType)) {
-      const msgType = (messageType as any).meta?.type || 'unknown';
-      throw new Error(Bridge.ERRORS.INVALID_MESSAGE_TYPE(msgType, '.message.%message%'));
-    }
+    const handlerKey = `${this.namespace.namespaceName}:${messageType.name}`;
+    this.messageHandlers.set(handlerKey, handler as THandler);
 
-    if (messageType.namespace !== this.namespace.namespaceName) {
-      throw new Error(
-        Bridge.ERRORS.NAMESPACE_MISMATCH(messageType.namespace, this.namespace.namespaceName)
-      );
+    return () => {
+      this.messageHandlers.delete(handlerKey);
+    };
+  }
+
+  /**
+   * Register handlers for all messages this bridge side receives at once.
+   * Missing handlers and handlers for messages the side doesn't receive fail to compile.
+   * Returns a function that removes all registered handlers.
+   *
+   * @example
+   * ```typescript
+   * const dispose = bridge.implement({
+   *   getUserData: async ({ userId }) => db.users.find(userId),
+   *   search: async function* ({ query }) { yield* searchIndex(query); },
+   * });
+   * ```
+   */
+  implement<THandlers extends TBridgeImplementation<Namespace, TChannel['side']>>(
+    handlers: TExactImplementation<TBridgeImplementation<Namespace, TChannel['side']>, THandlers>
+  ): () => void {
+    const remoteSide: TBridgeSide = this.channel.side === 'main' ? 'worker' : 'main';
+    const expectedNames = this.namespace.messages
+      .filter((message) => canSendFromSide(message.direction, remoteSide))
+      .map((message) => message.name);
+    const handlerNames = Object.keys(handlers);
+    const missing = expectedNames.filter((name) => handlerNames.indexOf(name) === -1);
+    const unexpected = handlerNames.filter((name) => expectedNames.indexOf(name) === -1);
+    if (missing.length > 0 || unexpected.length > 0) {
+      throw new Error(Bridge.ERRORS.INVALID_IMPLEMENTATION(missing, unexpected));
     }
 
-    const handlerKey = `${this.namespace.namespaceName}:${messageType.name}`;
-    this.messageHandlers.set(handlerKey, handler as (data: unknown) => Promise<unknown>);
+    const messages = this.namespace.message as Record<
+      string,
+      TMessageAnnotationFromNamespace<Namespace>
+    >;
+    const disposers = handlerNames.map((name) =>
+      this.listen(
+        messages[name],
+        (handlers as Record<string, unknown>)[name] as TMessageCallback<
+          Namespace,
+          TMessageAnnotationFromNamespace<Namespace>
+        >
+      )
+    );
 
     return () => {
-      this.messageHandlers.delete(handlerKey);
+      disposers.forEach((dispose) => {
+        dispose();
+      });
+    };
+  }
+
+  /**
+   * Add middleware for message processing, returns a function removing it.
+   * Middleware runs in the order of registration, hook objects are adapted to the onion style.
+   *
+   * @example
+   * ```typescript
+   * bridge.use(
+   *   async (ctx, next) => {
+   *     ctx.headers.authorization = await getToken();
+   *     await next();
+   *   },
+   *   { pipeline: 'dispatch', messages: [namespace.message.getUserData] }
+   * );
+   * ```
+   */
+  use(middleware: TMiddleware | TBridgeMiddleware, scope?: TMiddlewareScope): () => void {
+    const entry: TMiddlewareEntry =
+      typeof middleware === 'function'
+        ? { middleware, scope }
+        : { middleware: createHookMiddleware(middleware), hooks: middleware, scope };
+    this.middleware.push(entry);
+
+    return () => {
+      const index = this.middleware.indexOf(entry);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+      }
     };
   }
 
   /**
-   * Add middleware for message processing
+   * Add middleware for a single message, request and response are typed from the namespace definition.
+   * Accepts `(ctx, next)` middleware or a hook object, transformations must keep the payload shape.
+   *
+   * @example
+   * ```typescript
+   * bridge.useFor(namespace.message.getUserData, {
+   *   onBeforeSend: (namespace, messageName, request) => ({ ...request, userId: request.userId.trim() }),
+   * });
+   * ```
+   */
+  useFor<TMessage extends TMessageAnnotationFromNamespace<Namespace>>(
+    messageType: TMessage,
+    middleware: TMessageMiddlewareFromNamespace<Namespace, TMessage>
+  ): () => void {
+    this.assertMessageIdentifier(messageType);
+
+    return this.use(middleware as TMiddleware | TBridgeMiddleware, {
+      messages: [messageType as TMessageBase<string, string>],
+    });
+  }
+
+  /**
+   * Observe every frame the bridge sends and receives, including handshake and stream frames.
+   * Frames are passed as they are, listeners must not change them. Returns a function removing the listener.
+   *
+   * @example
+   * ```typescript
+   * bridge.onFrame((frame, direction) => {
+   *   console.debug(direction, frame.type, frame.name, frame.id);
+   * });
+   * ```
    */
-  use(middleware: TBridgeMiddleware): void {
-    this.middleware.push(middleware);
+  onFrame(listener: TFrameListener): () => void {
+    this.frameListeners.push(listener);
+    return () => {
+      this.frameListeners = this.frameListeners.filter((current) => current !== listener);
+    };
   }
 
   /**
@@ -309,188 +764,1059 @@ export class Bridge<Namespace extends NamespaceMessages, TChannel extends IChann
     return this.channel.isReady();
   }
 
+  /**
+   * Check that error came from the remote side and narrow it to errors declared for the message.
+   * Declared codes are a type-level contract, like payload types they are not checked at runtime.
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await bridge.dispatch(send.getUser({ id }));
+   * } catch (error) {
+   *   if (bridge.isRemoteError(error, message.getUser) && error.code === 'NOT_FOUND') {
+   *     console.log(error.data.id);
+   *   }
+   * }
+   * ```
+   */
+  isRemoteError<TMessage extends { name: string }>(
+    error: unknown,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars -- used for type inference only
+    message: TMessage
+  ): error is TMessageErrorFromNamespace<TMessage['name'], Namespace> {
+    return error instanceof BridgeRemoteError;
+  }
+
+  /**
+   * Resolves after the handshake with the remote bridge, when it is actually listening.
+   * Rejects if the bridge is destroyed before that.
+   */
+  ready(): Promise<void> {
+    return this.connection.promise;
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
     this.pendingRequests.forEach((request) => {
       clearTimeout(request.timer);
-      request.reject(new Error(Bridge.ERRORS.BRIDGE_DESTROYED));
+      request.reject(new Error(Bridge.ERRORS.BRIDGE_DESTROYED), 'local');
     });
     this.pendingRequests.clear();
+    this.retryDelays.forEach((cancel, timer) => {
+      clearTimeout(timer);
+      cancel();
+    });
+    this.retryDelays.clear();
+    this.handledRequests.clear();
+    this.activeRequests.forEach((controller) => {
+      controller.abort();
+    });
+    this.activeRequests.clear();
+    this.streamConsumers.forEach((stream) => {
+      clearTimeout(stream.timer);
+      stream.queue.fail(new Error(Bridge.ERRORS.BRIDGE_DESTROYED));
+    });
+    this.streamConsumers.clear();
+    this.streamProducers.forEach((producer) => {
+      producer.controller.abort();
+      this.stopProducer(producer.iterator);
+    });
+    this.streamProducers.clear();
     this.messageHandlers.clear();
     this.middleware.length = 0;
+    this.connection.reject(new Error(Bridge.ERRORS.BRIDGE_DESTROYED));
     this.channel.destroy();
   }
 
-  private async initializeChannel(): Promise<void> {
-    await this.channel.initialize();
-    this.channel.onMessage(this.handleInternalMessage.bind(this));
-  }
+  /**
+   * Check that message identifier comes from .message of this bridge namespace
+   */
+  private assertMessageIdentifier(messageType: unknown): void {
+    if (!isMessageInstance(messageType)) {
+      throw new Error(Bridge.ERRORS.INVALID_MESSAGE_INSTANCE);
+    }
 
-  private handleInternalMessage(message: TInternalMessage): void {
-    // Filter out messages sent by this bridge instance
-    if (message.sender === this.channel.side) {
-      return;
+    if (!isMessageForListen(messageType)) {
+      const msgType = (messageType as any).meta?.type || 'unknown';
+      throw new Error(Bridge.ERRORS.INVALID_MESSAGE_TYPE(msgType, '.message.%message%'));
     }
 
-    if (message.type === 'request') {
-      this.handleRequest(message);
-    } else if (message.type === 'response') {
-      this.handleResponse(message);
-    } else if (message.type === 'error') {
-      this.handleError(message);
+    if (messageType.namespace !== this.namespace.namespaceName) {
+      throw new Error(
+        Bridge.ERRORS.NAMESPACE_MISMATCH(messageType.namespace, this.namespace.namespaceName)
+      );
     }
   }
 
-  private handleRequest(message: TInternalMessage): void {
-    const handlerKey = `${message.namespace}:${message.name}`;
-    const handler = this.messageHandlers.get(handlerKey);
-
-    if (!handler) {
-      this.sendErrorResponse(message.id, Bridge.ERRORS.NO_HANDLER(message.name));
-      return;
+  private getConnectionError(shouldWaitForReady: boolean): Error | null {
+    if (this.connectionError) {
+      return this.connectionError;
     }
 
-    if (message.type !== 'request') {
-      this.sendErrorResponse(
-        message.id,
-        `Invalid message type: ${message.type} for message "${message.namespace}:${message.name}" in handleRequest`
-      );
-      return;
+    if (!shouldWaitForReady && !this.channel.isReady()) {
+      return new Error(Bridge.ERRORS.CHANNEL_NOT_READY);
     }
 
-    // Apply onBeforeHandle middleware
-    this.applyBeforeHandleMiddleware(message.name, message.data)
-      .then((processedData) => handler(processedData))
-      .then((response) => this.applyAfterHandleMiddleware(message.name, response))
-      .then((finalResponse) => {
-        this.sendResponse(message.id, finalResponse);
-      })
-      .catch((error: Error) => {
-        this.applyErrorMiddleware(message.name, error);
-        this.sendErrorResponse(message.id, error.message || Bridge.ERRORS.UNKNOWN);
-      });
+    return null;
   }
 
-  private handleResponse(message: TInternalMessage): void {
-    const pendingRequest = this.pendingRequests.get(message.id);
-    if (pendingRequest) {
-      pendingRequest.resolve(message.type === 'response' ? message.data : undefined);
-      this.pendingRequests.delete(message.id);
+  /**
+   * Check that message can be sent from this bridge with the method expecting given kind
+   */
+  private getOutgoingMessageError(
+    message: unknown,
+    expectedKinds: Array<TMessageKind>,
+    shouldWaitForReady = false
+  ): Error | null {
+    const connectionError = this.getConnectionError(shouldWaitForReady);
+    if (connectionError) {
+      return connectionError;
     }
-  }
 
-  private handleError(message: TInternalMessage): void {
-    const pendingRequest = this.pendingRequests.get(message.id);
-    if (pendingRequest) {
-      pendingRequest.reject(
-        new Error(String(message.type === 'error' ? message.error : Bridge.ERRORS.UNKNOWN))
+    if (!isMessageInstance(message)) {
+      return new Error(Bridge.ERRORS.INVALID_MESSAGE_INSTANCE);
+    }
+
+    if (!isMessageForSend(message)) {
+      return new Error(Bridge.ERRORS.INVALID_MESSAGE_TYPE(message.meta.type, '.send.%message%'));
+    }
+
+    if (message.namespace !== this.namespace.namespaceName) {
+      return new Error(
+        Bridge.ERRORS.NAMESPACE_MISMATCH(message.namespace, this.namespace.namespaceName)
       );
-      this.pendingRequests.delete(message.id);
     }
-  }
 
-  private sendResponse(messageId: string, data: unknown): void {
-    const response: TInternalMessage = {
-      id: messageId,
-      namespace: this.namespace.namespaceName,
-      name: '',
-      sender: this.channel.side,
-      type: 'response',
-      data,
-    };
-    this.channel.send(response);
+    const kind = getMessageKind(message);
+    if (expectedKinds.indexOf(kind) === -1) {
+      const expectedMethod = kind === 'event' ? '.emit()' : '.dispatch()';
+      return new Error(Bridge.ERRORS.INVALID_MESSAGE_KIND(message.name, kind, expectedMethod));
+    }
+
+    // Validate message direction
+    const bridgeSide = this.channel.side;
+    const messageDirection: TMessageDirection = message.meta.direction;
+
+    if (!canSendFromSide(messageDirection, bridgeSide)) {
+      return new Error(Bridge.ERRORS.INVALID_DIRECTION(message.name, messageDirection, bridgeSide));
+    }
+
+    return null;
   }
 
-  private sendErrorResponse(messageId: string, error: string): void {
-    const response: TInternalMessage = {
+  /**
+   * Send request and repeat it according to retry policy.
+   * All attempts share the message id as idempotency key, so the remote side can deduplicate deliveries.
+   */
+  private async requestWithRetry(
+    ctx: TMiddlewareContext,
+    options: TRequestOptions
+  ): Promise<TResponse> {
+    const { retries: retryPolicy, signal, timeout } = options;
+    const { name: messageName, request: data, headers, id: idempotencyKey } = ctx;
+
+    if (options.waitForReady) {
+      await this.waitForConnection(messageName, options);
+    }
+
+    // The first attempt gets the time left since dispatch, retries get the whole timeout
+    const attempt: TRequestAttempt = {
+      signal,
+      timeout: getTimeLeft(timeout, options.dispatchedAt),
+      messageName,
+      data,
+      headers,
+      idempotencyKey,
+    };
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      const result = await this.sendRequest(attempt);
+      attempt.timeout = timeout;
+      if (result.ok) {
+        return { data: result.data, headers: result.headers };
+      }
+
+      const { error, reason } = result;
+      const context = {
+        namespace: this.namespace.namespaceName,
+        messageName,
+        attempt: attemptNumber,
+        reason: reason as TRetryReason,
+        error,
+      };
+
+      if (
+        reason === 'local' ||
+        attemptNumber > retryPolicy.retries ||
+        !retryPolicy.shouldRetry(context)
+      ) {
+        this.applyErrorMiddleware(messageName, error);
+        throw error;
+      }
+
+      try {
+        await this.wait(retryPolicy.delay(context), signal);
+      } catch (waitError) {
+        const error = getAbortError(messageName, signal) ?? (waitError as Error);
+        this.applyErrorMiddleware(messageName, error);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Single request attempt, never rejects
+   */
+  private sendRequest(attempt: TRequestAttempt): Promise<TAttemptResult> {
+    const { messageName, timeout, signal } = attempt;
+
+    return new Promise<TAttemptResult>((resolve) => {
+      const abortError = getAbortError(messageName, signal);
+      if (abortError) {
+        resolve({ ok: false, error: abortError, reason: 'local' });
+        return;
+      }
+
+      const messageId = generateMessageId(this.namespace.namespaceName);
+
+      // Set timeout
+      const timer = startTimeout(timeout, () => {
+        if (this.pendingRequests.has(messageId)) {
+          const error = createTimeoutError(Bridge.ERRORS.TIMEOUT(messageName));
+          this.pendingRequests.get(messageId)!.reject(error, 'timeout');
+          this.pendingRequests.delete(messageId);
+        }
+      });
+
+      const onAbort = (): void => {
+        this.abortRequest(messageId, messageName);
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.pendingRequests.set(messageId, {
+        resolve: (response: unknown, responseHeaders: THeaders) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve({ ok: true, data: response, headers: responseHeaders });
+        },
+        reject: (error: Error, reason: TAttemptFailureReason) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve({ ok: false, error, reason });
+        },
+        timer,
+      });
+
+      try {
+        this.postFrame(this.createRequestFrame(messageId, attempt));
+      } catch (error) {
+        this.pendingRequests.get(messageId)?.reject(error as Error, 'local');
+        this.pendingRequests.delete(messageId);
+      }
+    });
+  }
+
+  private createRequestFrame(messageId: string, attempt: TRequestAttempt): TInternalMessage {
+    const { messageName, data, idempotencyKey, timeout, headers } = attempt;
+    return {
       id: messageId,
       namespace: this.namespace.namespaceName,
-      name: '',
+      name: messageName,
       sender: this.channel.side,
-      type: 'error',
-      error,
+      type: 'request',
+      data,
+      idempotencyKey,
+      ...(timeout !== false && { timeout }),
+      ...getHeadersField(headers),
     };
-    this.channel.send(response);
-  }
-
-  private applyBeforeSendMiddleware(messageName: string, data: unknown): Promise<unknown> {
-    return this.middleware.reduce(
-      (accPromise, middleware) =>
-        accPromise.then((currentData) => {
-          if (middleware.onBeforeSend) {
-            const result = middleware.onBeforeSend(
-              this.namespace.namespaceName,
-              messageName,
-              currentData
-            );
-            return result instanceof Promise ? result : Promise.resolve(result);
-          }
-          return currentData;
-        }),
-      Promise.resolve(data)
-    );
   }
 
-  private applyAfterReceiveMiddleware(messageName: string, response: unknown): Promise<unknown> {
-    return this.middleware.reduce(
-      (accPromise, middleware) =>
-        accPromise.then((currentResponse) => {
-          if (middleware.onAfterReceive) {
-            const result = middleware.onAfterReceive(
-              this.namespace.namespaceName,
-              messageName,
-              currentResponse
-            );
-            return result instanceof Promise ? result : Promise.resolve(result);
-          }
-          return currentResponse;
-        }),
-      Promise.resolve(response)
+  /**
+   * Caller gave up: settle pending request locally and let the remote handler know
+   */
+  private abortRequest(messageId: string, messageName: string): void {
+    const pendingRequest = this.pendingRequests.get(messageId);
+    if (pendingRequest) {
+      this.pendingRequests.delete(messageId);
+      pendingRequest.reject(createAbortError(Bridge.ERRORS.ABORTED(messageName)), 'local');
+      this.sendFrame(messageId, messageName, { type: 'cancel' });
+    }
+  }
+
+  private openStream(
+    message: TMessageToSend<string, string>,
+    validationError: Error | null,
+    options: TCallOptions & { headers: THeaders }
+  ): AsyncIterable<unknown> {
+    const ctx = this.createDispatchContext(message, options.headers);
+    const { id: messageId } = ctx;
+    const { name } = message;
+
+    // Consumer stopped iteration early: let the producer stop its work
+    const queue = new StreamQueue<unknown>(() => {
+      this.closeStream(messageId);
+      this.sendFrame(messageId, name, { type: 'cancel' });
+    });
+
+    if (validationError) {
+      queue.fail(validationError);
+      return queue;
+    }
+
+    const onAbort = (): void => {
+      this.failStream(messageId, createAbortError(Bridge.ERRORS.ABORTED(name)));
+      this.sendFrame(messageId, name, { type: 'cancel' });
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    this.streamConsumers.set(messageId, {
+      messageName: name,
+      queue,
+      timeout: options.timeout,
+      detach: () => {
+        options.signal?.removeEventListener('abort', onAbort);
+      },
+    });
+    this.resetStreamTimeout(messageId);
+
+    const response = this.sendStream(messageId, ctx, options).catch((error: Error) => {
+      this.failStream(messageId, error);
+      throw error;
+    });
+    // Read on first iteration only, a stream that is never iterated must not produce unhandled rejection
+    response.catch(() => undefined);
+
+    return this.receiveStream(name, deferAsyncIterable(response));
+  }
+
+  /**
+   * Stream request passing the dispatch pipeline, resolves with chunks seen by the middleware
+   */
+  private async sendStream(
+    messageId: string,
+    ctx: TMiddlewareContext,
+    options: TCallOptions
+  ): Promise<AsyncIterable<unknown>> {
+    const { queue } = this.streamConsumers.get(messageId) as TStreamConsumer;
+    let isSent = false;
+
+    await this.applyMiddleware(ctx, async () => {
+      // Stream timeout and abort signal already cover waiting for the handshake
+      if (options.waitForReady) {
+        await this.connection.promise;
+      }
+      if (!queue.isClosed()) {
+        this.sendStreamRequest(messageId, {
+          name: ctx.name,
+          data: ctx.request,
+          headers: ctx.headers,
+        });
+      }
+      isSent = true;
+      ctx.response = queue;
+    });
+
+    // Short-circuited by middleware, no chunks will arrive
+    if (!isSent) {
+      this.closeStream(messageId);
+    }
+    return getStreamResponse(ctx.name, ctx.response);
+  }
+
+  /**
+   * Validate chunks that passed the middleware, errors of the stream are reported once here
+   */
+  private async *receiveStream(
+    messageName: string,
+    source: AsyncIterable<unknown>
+  ): AsyncIterableIterator<unknown> {
+    try {
+      for await (const chunk of source) {
+        yield await this.validatePayload(messageName, 'response', chunk);
+      }
+    } catch (error) {
+      this.applyErrorMiddleware(messageName, error as Error);
+      throw error;
+    }
+  }
+
+  private sendStreamRequest(
+    messageId: string,
+    { name, data, headers }: { name: string; data: unknown; headers: THeaders }
+  ): void {
+    this.postFrame({
+      id: messageId,
+      namespace: this.namespace.namespaceName,
+      name,
+      sender: this.channel.side,
+      type: 'request',
+      data,
+      stream: true,
+      ...getHeadersField(headers),
+    });
+  }
+
+  /**
+   * Timeout is applied to the gap between chunks, not to the whole stream.
+   * The request is sent on dispatch, so the first gap starts there, not on the first read.
+   */
+  private resetStreamTimeout(messageId: string): void {
+    const stream = this.streamConsumers.get(messageId);
+    if (!stream) {
+      return;
+    }
+
+    clearTimeout(stream.timer);
+    stream.timer = startTimeout(stream.timeout, () => {
+      this.failStream(messageId, createTimeoutError(Bridge.ERRORS.TIMEOUT(stream.messageName)));
+      this.sendFrame(messageId, stream.messageName, { type: 'cancel' });
+    });
+  }
+
+  /**
+   * Timeout precedence: dispatch options > namespace message options > bridge config
+   */
+  private resolveTimeout(messageName: string, callTimeout?: number | false): number | false {
+    return callTimeout ?? this.getMessageOptions(messageName)?.timeout ?? this.config.timeout;
+  }
+
+  private getMessageOptions(messageName: string): TMessageOptions | undefined {
+    return this.namespace.messages.find((message) => message.name === messageName)?.options;
+  }
+
+  /**
+   * Validate response that passed the middleware, errors are reported like in receiveStream
+   */
+  private validateResponse(messageName: string, response: unknown): Promise<unknown> {
+    return this.validatePayload(messageName, 'response', response).catch((error: Error) => {
+      this.applyErrorMiddleware(messageName, error);
+      throw error;
+    });
+  }
+
+  /**
+   * Check incoming payload against the message schema, resolves with parsed value
+   */
+  private validatePayload(
+    messageName: string,
+    target: TValidationErrorData['target'],
+    value: unknown
+  ): Promise<unknown> {
+    const schema = this.getMessageOptions(messageName)?.schema?.[target];
+    if (!schema) {
+      return Promise.resolve(value);
+    }
+
+    return validateSchema(schema, value).then((result) => {
+      if (result.issues) {
+        throw new BridgeValidationError({ messageName, target, issues: result.issues });
+      }
+      return result.value;
+    });
+  }
+
+  private failStream(messageId: string, error: Error): void {
+    this.closeStream(messageId)?.queue.fail(error);
+  }
+
+  private closeStream(messageId: string): TStreamConsumer | undefined {
+    const stream = this.streamConsumers.get(messageId);
+    if (stream) {
+      clearTimeout(stream.timer);
+      stream.detach?.();
+      this.streamConsumers.delete(messageId);
+    }
+    return stream;
+  }
+
+  /**
+   * Send stream and cancellation frames, skipped when the channel is already closed
+   */
+  private sendFrame(messageId: string, messageName: string, frame: TControlFrame): void {
+    if (!this.channel.isReady()) {
+      return;
+    }
+
+    this.postFrame({
+      id: messageId,
+      namespace: this.namespace.namespaceName,
+      name: messageName,
+      sender: this.channel.side,
+      ...frame,
+    });
+  }
+
+  /**
+   * Delay between retries, interrupted by destroy() or abort signal
+   */
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        this.retryDelays.delete(timer);
+        reject(createAbortError('Aborted'));
+      };
+      const timer = setTimeout(() => {
+        this.retryDelays.delete(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort);
+      this.retryDelays.set(timer, () => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error(Bridge.ERRORS.BRIDGE_DESTROYED));
+      });
+    });
+  }
+
+  /**
+   * Queue request until the handshake completes, within the same timeout and abort signal.
+   * Failures pass the error middleware like failures of the request.
+   */
+  private waitForConnection(messageName: string, options: TCallOptions): Promise<void> {
+    if (this.isConnected) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error): void => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          this.applyErrorMiddleware(messageName, error);
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onAbort = (): void => {
+        settle(createAbortError(Bridge.ERRORS.ABORTED(messageName)));
+      };
+      const timer = startTimeout(getTimeLeft(options.timeout, options.dispatchedAt), () => {
+        settle(createTimeoutError(Bridge.ERRORS.TIMEOUT(messageName)));
+      });
+
+      options.signal?.addEventListener('abort', onAbort);
+      this.connection.promise.then(() => {
+        settle();
+      }, settle);
+    });
+  }
+
+  private async initializeChannel(): Promise<void> {
+    await this.channel.initialize();
+    this.channel.onMessage(this.receiveFrame.bind(this));
+    // Peer that is already listening answers with 'ack', a peer started later sends its own 'hello'
+    this.sendHandshake('hello');
+  }
+
+  private sendHandshake(type: 'hello' | 'ack'): void {
+    if (!this.channel.isReady()) {
+      return;
+    }
+
+    this.postFrame({
+      id: generateMessageId(this.namespace.namespaceName),
+      namespace: this.namespace.namespaceName,
+      name: '',
+      sender: this.channel.side,
+      type,
+      protocols: SUPPORTED_PROTOCOL_VERSIONS.slice(),
+      contract: this.namespace.contract,
+    });
+  }
+
+  /**
+   * Every frame goes through here to be stamped with the protocol version
+   */
+  private postFrame(frame: TInternalMessage): void {
+    const protocol = isHandshakeFrame(frame) ? HANDSHAKE_PROTOCOL_VERSION : this.protocolVersion;
+    const stampedFrame = { ...frame, protocol };
+    // Before sending: channels may deliver synchronously and the answer must come after the request
+    this.notifyFrameListeners(stampedFrame, 'sent');
+    this.channel.send(stampedFrame);
+  }
+
+  private notifyFrameListeners(frame: TInternalMessage, direction: 'sent' | 'received'): void {
+    this.frameListeners.forEach((listener) => {
+      // A failing observer must not stop the frame
+      try {
+        listener(frame, direction);
+      } catch (error) {
+        this.config.reportError(error);
+      }
+    });
+  }
+
+  private handleHandshake(message: Extract<TInternalMessage, { type: 'hello' | 'ack' }>): void {
+    const isNegotiated = this.isConnected || this.connectionError !== null;
+    if (!isNegotiated || message.contract?.fingerprint !== this.remoteFingerprint) {
+      this.negotiate(message, isNegotiated);
+    }
+
+    if (message.type === 'hello') {
+      // Answered even on mismatch, so the peer detects it as well
+      this.sendHandshake('ack');
+    }
+  }
+
+  /**
+   * Settle the connection, a repeated handshake with another contract settles it anew
+   */
+  private negotiate(
+    message: Extract<TInternalMessage, { type: 'hello' | 'ack' }>,
+    isRepeated: boolean
+  ): void {
+    if (isRepeated) {
+      this.connection = createDeferred<void>();
+      this.connection.promise.catch(() => undefined);
+      this.isConnected = false;
+    }
+
+    // Bridges before versioning don't list protocols and speak version 1
+    const remoteVersions = message.protocols ?? [1];
+    const version = negotiateProtocol(SUPPORTED_PROTOCOL_VERSIONS, remoteVersions);
+    this.remoteFingerprint = message.contract?.fingerprint;
+    this.connectionError =
+      version === null ? createProtocolError(remoteVersions) : this.checkContract(message);
+    if (this.connectionError) {
+      this.connection.reject(this.connectionError);
+      return;
+    }
+
+    this.protocolVersion = version ?? PROTOCOL_VERSION;
+    this.isConnected = true;
+    this.connection.resolve();
+  }
+
+  /**
+   * Compare namespace definitions of both sides, returns error when the mismatch is rejected
+   */
+  private checkContract(
+    message: Extract<TInternalMessage, { type: 'hello' | 'ack' }>
+  ): BridgeError | null {
+    const localContract = this.namespace.contract;
+    // Bridges before contracts don't send one
+    if (!message.contract || message.contract.fingerprint === localContract.fingerprint) {
+      return null;
+    }
+
+    const reaction = this.config.onContractMismatch;
+    if (reaction === 'ignore') {
+      return null;
+    }
+
+    const diff = diffContracts(localContract, message.contract);
+    if (typeof reaction === 'function') {
+      reaction(diff);
+      return null;
+    }
+
+    const errorMessage = Bridge.ERRORS.CONTRACT_MISMATCH(this.namespace.namespaceName, diff);
+    if (reaction === 'reject') {
+      return new BridgeError('CONTRACT_MISMATCH', errorMessage, diff);
+    }
+
+    console.warn(errorMessage);
+    return null;
+  }
+
+  /**
+   * Entry point of frames received from the channel
+   */
+  private receiveFrame(message: TInternalMessage): void {
+    if (!this.isOwnIncomingFrame(message)) {
+      return;
+    }
+    this.notifyFrameListeners(message, 'received');
+
+    // Handshake frames are read in any version, versions are negotiated from their protocols list
+    const { protocol = 1 } = message;
+    if (!isHandshakeFrame(message) && SUPPORTED_PROTOCOL_VERSIONS.indexOf(protocol) === -1) {
+      // Nobody else can answer the request, other frames of unknown versions can't be interpreted
+      if (message.type === 'request') {
+        this.sendErrorResponse(message.id, createProtocolError([protocol]));
+      }
+      return;
+    }
+
+    this.handleInternalMessage(message);
+  }
+
+  /**
+   * Frames sent by this bridge and frames of other namespaces sharing the channel are ignored,
+   * so only the issuing bridge can match a response
+   */
+  private isOwnIncomingFrame(message: TInternalMessage): boolean {
+    return (
+      message.sender !== this.channel.side && message.namespace === this.namespace.namespaceName
     );
   }
 
-  private applyBeforeHandleMiddleware(messageName: string, data: unknown): Promise<unknown> {
-    return this.middleware.reduce(
-      (accPromise, middleware) =>
-        accPromise.then((currentData) => {
-          if (middleware.onBeforeHandle) {
-            const result = middleware.onBeforeHandle(
-              this.namespace.namespaceName,
-              messageName,
-              currentData
-            );
-            return result instanceof Promise ? result : Promise.resolve(result);
-          }
-          return currentData;
-        }),
-      Promise.resolve(data)
+  private handleInternalMessage(message: TInternalMessage): void {
+    if (message.type === 'request') {
+      this.handleRequest(message);
+    } else if (message.type === 'event') {
+      this.handleEvent(message);
+    } else if (message.type === 'response') {
+      this.handleResponse(message);
+    } else if (message.type === 'error') {
+      this.handleError(message);
+    } else if (message.type === 'chunk' || message.type === 'end') {
+      this.handleStreamFrame(message);
+    } else if (message.type === 'cancel') {
+      this.handleCancel(message);
+    } else if (message.type === 'hello' || message.type === 'ack') {
+      this.handleHandshake(message);
+    }
+    // Unknown frame types are ignored, see compatibility policy in protocol.ts
+  }
+
+  private handleRequest(message: TInternalMessage): void {
+    const handlerKey = `${message.namespace}:${message.name}`;
+    const handler = this.messageHandlers.get(handlerKey);
+
+    if (!handler) {
+      this.sendErrorResponse(
+        message.id,
+        new BridgeError('NO_HANDLER', Bridge.ERRORS.NO_HANDLER(message.name))
+      );
+      return;
+    }
+
+    if (message.type !== 'request') {
+      this.sendErrorResponse(
+        message.id,
+        new Error(
+          `Invalid message type: ${message.type} for message "${message.namespace}:${message.name}" in handleRequest`
+        )
+      );
+      return;
+    }
+
+    if (message.stream) {
+      this.handleStreamRequest(message, handler);
+      return;
+    }
+
+    const { controller, outcome } = this.getRequestExecution(message, handler);
+    this.activeRequests.set(message.id, controller);
+
+    void outcome.then((result) => {
+      this.activeRequests.delete(message.id);
+      // Cancelled by the requesting side, nobody waits for the answer
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      if (result.ok) {
+        this.sendResponse(message.id, result.data, result.headers);
+      } else {
+        this.sendErrorResponse(message.id, result.error);
+      }
+    });
+  }
+
+  /**
+   * Repeated deliveries of the same request reuse the first execution
+   */
+  private getRequestExecution(message: TRequestMessage, handler: THandler): THandledRequest {
+    const { idempotencyKey } = message;
+    const rememberedExecution = idempotencyKey
+      ? this.handledRequests.get(idempotencyKey)
+      : undefined;
+    if (rememberedExecution) {
+      return rememberedExecution;
+    }
+
+    const controller = new AbortController();
+    const execution: THandledRequest = {
+      controller,
+      outcome: this.processRequest(
+        message,
+        handler,
+        this.createHandlerContext(message, controller.signal)
+      ),
+    };
+    if (idempotencyKey) {
+      this.rememberRequest(idempotencyKey, execution);
+    }
+    return execution;
+  }
+
+  private handleStreamRequest(message: TRequestMessage, handler: THandler): void {
+    const { id: messageId, name: messageName } = message;
+    const producer: TStreamProducer = { controller: new AbortController() };
+    this.streamProducers.set(messageId, producer);
+    const context = this.createHandlerContext(message, producer.controller.signal);
+    const ctx = this.createHandleContext(message, context.headers);
+
+    this.applyMiddleware(ctx, () => this.callHandler(ctx, handler, context))
+      .then(() => {
+        producer.iterator = getStreamResponse(messageName, ctx.response)[Symbol.asyncIterator]();
+        return this.pumpStream(messageId, messageName, producer);
+      })
+      .catch((error: Error) => {
+        if (this.streamProducers.get(messageId) !== producer) {
+          return;
+        }
+
+        this.streamProducers.delete(messageId);
+        this.applyErrorMiddleware(messageName, error);
+        this.sendErrorResponse(messageId, error);
+      });
+  }
+
+  /**
+   * Pull chunks from handler iterator and send them until it ends or stream is cancelled
+   */
+  private async pumpStream(
+    messageId: string,
+    messageName: string,
+    producer: TStreamProducer
+  ): Promise<void> {
+    const iterator = producer.iterator as AsyncIterator<unknown>;
+
+    for (;;) {
+      const result = await iterator.next();
+      // Cancelled by consumer or bridge destroyed
+      if (this.streamProducers.get(messageId) !== producer) {
+        this.stopProducer(iterator);
+        return;
+      }
+      if (result.done) {
+        break;
+      }
+
+      this.sendFrame(messageId, messageName, { type: 'chunk', data: result.value });
+    }
+
+    this.streamProducers.delete(messageId);
+    this.sendFrame(messageId, messageName, { type: 'end' });
+  }
+
+  private handleStreamFrame(message: TInternalMessage): void {
+    const stream = this.streamConsumers.get(message.id);
+    if (!stream) {
+      return;
+    }
+
+    // Chunks pass middleware and validation when they are read, see receiveStream
+    if (message.type === 'chunk') {
+      this.resetStreamTimeout(message.id);
+      stream.queue.push(message.data);
+    } else {
+      this.closeStream(message.id);
+      stream.queue.end();
+    }
+  }
+
+  private handleCancel(message: TInternalMessage): void {
+    const producer = this.streamProducers.get(message.id);
+    if (producer) {
+      this.streamProducers.delete(message.id);
+      producer.controller.abort();
+      this.stopProducer(producer.iterator);
+    }
+
+    this.activeRequests.get(message.id)?.abort();
+  }
+
+  /**
+   * Stop the handler iterator, its finally block may throw when nobody waits for the stream
+   */
+  private stopProducer(iterator: AsyncIterator<unknown> | undefined): void {
+    iterator?.return?.().catch((error: unknown) => {
+      this.config.reportError(error);
+    });
+  }
+
+  private handleEvent(message: TInternalMessage): void {
+    const handler = this.messageHandlers.get(`${message.namespace}:${message.name}`);
+
+    // Nobody waits for an answer, so events without handler are dropped silently
+    if (!handler || message.type !== 'event') {
+      return;
+    }
+
+    // Events can't be cancelled, the signal is never aborted
+    const context = this.createHandlerContext(message, new AbortController().signal);
+    const ctx = this.createHandleContext(message, context.headers);
+    this.applyMiddleware(ctx, () => this.callHandler(ctx, handler, context)).catch(
+      (error: Error) => {
+        this.applyErrorMiddleware(message.name, error);
+      }
     );
   }
 
-  private applyAfterHandleMiddleware(messageName: string, response: unknown): Promise<unknown> {
-    return this.middleware.reduce(
-      (accPromise, middleware) =>
-        accPromise.then((currentResponse) => {
-          if (middleware.onAfterHandle) {
-            const result = middleware.onAfterHandle(
-              this.namespace.namespaceName,
-              messageName,
-              currentResponse
-            );
-            return result instanceof Promise ? result : Promise.resolve(result);
-          }
-          return currentResponse;
-        }),
-      Promise.resolve(response)
+  private createHandlerContext(
+    message: TInternalMessage,
+    signal: AbortSignal
+  ): THandlerContext & { headers: THeaders } {
+    const timeout = message.type === 'request' && !message.stream ? message.timeout : undefined;
+    return {
+      id: message.id,
+      namespace: message.namespace,
+      name: message.name,
+      sender: message.sender,
+      // Copy, onBeforeHandle middleware can change headers seen by the handler
+      headers: { ...message.headers },
+      ...(timeout !== undefined && { deadline: Date.now() + timeout }),
+      signal,
+    };
+  }
+
+  private processRequest(
+    message: TRequestMessage,
+    handler: THandler,
+    context: THandlerContext & { headers: THeaders }
+  ): Promise<TRequestOutcome> {
+    const messageName = message.name;
+    // Request headers are echoed back with the response
+    const ctx = this.createHandleContext(message, context.headers);
+    ctx.responseHeaders = { ...context.headers };
+
+    return this.applyMiddleware(ctx, () => this.callHandler(ctx, handler, context)).then(
+      (): TRequestOutcome => ({
+        ok: true,
+        data: ctx.response,
+        headers: ctx.responseHeaders,
+      }),
+      (error: Error): TRequestOutcome => {
+        this.applyErrorMiddleware(messageName, error);
+        return { ok: false, error };
+      }
     );
   }
 
+  private rememberRequest(idempotencyKey: string, execution: THandledRequest): void {
+    this.handledRequests.set(idempotencyKey, execution);
+    if (this.handledRequests.size > MAX_REMEMBERED_REQUESTS) {
+      const oldestKey = this.handledRequests.keys().next().value as string;
+      this.handledRequests.delete(oldestKey);
+    }
+
+    // Failed requests must be executed again on retry
+    void execution.outcome.then((result) => {
+      if (!result.ok && this.handledRequests.get(idempotencyKey) === execution) {
+        this.handledRequests.delete(idempotencyKey);
+      }
+    });
+  }
+
+  private handleResponse(message: TInternalMessage): void {
+    const pendingRequest = this.pendingRequests.get(message.id);
+    if (pendingRequest) {
+      pendingRequest.resolve(
+        message.type === 'response' ? message.data : undefined,
+        message.headers ?? {}
+      );
+      this.pendingRequests.delete(message.id);
+    }
+  }
+
+  private handleError(message: TInternalMessage): void {
+    const error = deserializeError(message.type === 'error' ? message.error : undefined);
+
+    if (this.streamConsumers.has(message.id)) {
+      this.failStream(message.id, error);
+      return;
+    }
+
+    const pendingRequest = this.pendingRequests.get(message.id);
+    if (pendingRequest) {
+      pendingRequest.reject(error, 'remote');
+      this.pendingRequests.delete(message.id);
+    }
+  }
+
+  private sendResponse(messageId: string, data: unknown, headers: THeaders): void {
+    const response: TInternalMessage = {
+      id: messageId,
+      namespace: this.namespace.namespaceName,
+      name: '',
+      sender: this.channel.side,
+      type: 'response',
+      data,
+      ...getHeadersField(headers),
+    };
+    this.postFrame(response);
+  }
+
+  private sendErrorResponse(messageId: string, error: unknown): void {
+    const response: TInternalMessage = {
+      id: messageId,
+      namespace: this.namespace.namespaceName,
+      name: '',
+      sender: this.channel.side,
+      type: 'error',
+      error: this.config.serializeError(error),
+    };
+    this.postFrame(response);
+  }
+
+  private createDispatchContext(
+    message: TMessageToSend<string, string>,
+    headers: THeaders
+  ): TMiddlewareContext {
+    return createMiddlewareContext({
+      pipeline: 'dispatch',
+      id: generateMessageId(this.namespace.namespaceName),
+      namespace: this.namespace.namespaceName,
+      name: message.name,
+      kind: getMessageKind(message),
+      request: message.payload,
+      headers,
+    });
+  }
+
+  private createHandleContext(message: TInternalMessage, headers: THeaders): TMiddlewareContext {
+    return createMiddlewareContext({
+      pipeline: 'handle',
+      id: (message.type === 'request' && message.idempotencyKey) || message.id,
+      namespace: message.namespace,
+      name: message.name,
+      kind:
+        message.type === 'request' && message.stream
+          ? 'stream'
+          : message.type === 'event'
+            ? 'event'
+            : 'request',
+      request: message.type === 'request' || message.type === 'event' ? message.data : undefined,
+      headers,
+    });
+  }
+
+  /**
+   * Innermost step of the handle pipeline
+   */
+  private callHandler(
+    ctx: TMiddlewareContext,
+    handler: THandler,
+    context: THandlerContext
+  ): Promise<void> {
+    return this.validatePayload(ctx.name, 'request', ctx.request)
+      .then((payload) => handler(payload, { ...context, headers: ctx.headers }))
+      .then((response) => {
+        ctx.response = response;
+      });
+  }
+
+  private applyMiddleware(ctx: TMiddlewareContext, innermost: () => Promise<void>): Promise<void> {
+    const middleware = this.middleware
+      .filter((entry) => isInScope(entry.scope, ctx))
+      .map((entry) => entry.middleware);
+    return runMiddleware(middleware, ctx, innermost);
+  }
+
   private applyErrorMiddleware(messageName: string, error: Error): void {
-    this.middleware.forEach((middleware) => {
-      if (middleware.onError) {
-        middleware.onError(this.namespace.namespaceName, messageName, error);
+    const target = { namespace: this.namespace.namespaceName, name: messageName };
+    this.middleware.forEach(({ hooks, scope }) => {
+      if (hooks?.onError && isInScope(scope, target)) {
+        hooks.onError(this.namespace.namespaceName, messageName, error);
       }
     });
   }
@@ -1,159 +1,274 @@
-import type { TMessageDirection, TMessageObjectType } from './types';
+import { type TNamespaceContract, createContract } from './contract';
+import type { TErrorDeclaration } from './errors';
+import type { TSchema } from './schema';
+import type { TMessageDirection, TMessageKind, TMessageObjectType } from './types';
 
 type TMessageMeta = {
   direction: TMessageDirection;
   type: TMessageObjectType;
+  kind?: TMessageKind;
 };
 
 type TMessageDefinition<TRequest = unknown, TResponse = unknown> = {
   request: TRequest;
   response: TResponse;
+  // Type-only, errors declared for the message
+  errors: unknown;
   meta: TMessageMeta;
 };
 
 type TMessagesMap = { [key: string]: TMessageDefinition };
 
+const MESSAGE_NAME_CLASH_ERROR = 'Namespaces declare the same messages';
+
+/**
+ * Options declared for a single message
+ */
+export type TMessageOptions<TReq = unknown, TRes = unknown> = {
+  /**
+   * Timeout in ms, overrides bridge config and is overridden by dispatch options.
+   * For streams it is applied between chunks. `false` disables the timeout.
+   */
+  timeout?: number | false;
+  /**
+   * Runtime validation of incoming payloads: requests are checked before the handler is called,
+   * responses (stream chunks) before they are returned to the caller.
+   * Message types are inferred from schemas when generics are omitted.
+   */
+  schema?: {
+    request?: TSchema<TReq>;
+    response?: TSchema<TRes>;
+  };
+};
+
+/**
+ * Options declared for a single event
+ */
+export type TEventOptions<TPayload = unknown> = {
+  /** Runtime validation of received event payloads */
+  schema?: {
+    request?: TSchema<TPayload>;
+  };
+};
+
+/**
+ * Runtime description of a single namespace message
+ */
+export type TMessageEntry = {
+  name: string;
+  direction: TMessageDirection;
+  /** Omitted for request/response messages */
+  kind?: Exclude<TMessageKind, 'request'>;
+  /** Omitted when message is declared without options */
+  options?: TMessageOptions;
+};
+
+type TRequestDefinition<TReq, TRes, TErrors, TDirection extends TMessageDirection> = {
+  request: TReq;
+  response: TRes;
+  errors: TErrors;
+  meta: { direction: TDirection; type: TMessageObjectType };
+};
+
+type TEventDefinition<TPayload, TDirection extends TMessageDirection> = {
+  request: TPayload;
+  response: void;
+  errors: never;
+  meta: { direction: TDirection; type: TMessageObjectType; kind: 'event' };
+};
+
+type TStreamDefinition<TReq, TChunk, TErrors, TDirection extends TMessageDirection> = {
+  request: TReq;
+  // For streams response is a type of single chunk
+  response: TChunk;
+  errors: TErrors;
+  meta: { direction: TDirection; type: TMessageObjectType; kind: 'stream' };
+};
+
+/**
+ * Kind of message definition, request/response definitions have no explicit kind
+ */
+export type TMessageKindOf<TDefinition> = TDefinition extends { meta: { kind: infer TKind } }
+  ? TKind
+  : 'request';
+
+type TMessageDeclaration<
+  TNamespaceName extends string,
+  TMessages extends TMessagesMap,
+  TDefinition extends TMessageDefinition,
+> = <TMessageName extends string>(
+  messageName: TMessageName
+) => NamespaceBuilder<TNamespaceName, TMessages & { [key in TMessageName]: TDefinition }>;
+
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type -- {} used as empty default for generic type parameter
 export class NamespaceBuilder<TNamespaceName extends string, TMessages extends TMessagesMap = {}> {
-  private messages: Array<{ name: string; direction: TMessageDirection }> = [];
+  private messages: Array<TMessageEntry> = [];
 
   constructor(private namespaceName: TNamespaceName) {}
 
+  /**
+   * Starts a builder with all messages of an existing namespace, to extend it with more messages.
+   * The source namespace is not changed.
+   *
+   * @example
+   * ```typescript
+   * const editorNamespace = NamespaceBuilder.from(coreNamespace, 'editor')
+   *   .mainToWorkerMessage<string, void>()('openFile')
+   *   .build();
+   * ```
+   */
+  static from<
+    TNamespace extends NamespaceMessages,
+    TName extends string = TNamespaceNameOf<TNamespace>,
+  >(
+    namespace: TNamespace,
+    namespaceName?: TName
+  ): NamespaceBuilder<TName, TMessagesOf<TNamespace>> {
+    const builder = new NamespaceBuilder<TName, TMessagesOf<TNamespace>>(
+      namespaceName ?? (namespace.namespaceName as TName)
+    );
+    builder.messages = namespace.messages.slice();
+    return builder;
+  }
+
   /**
    * Defines a message that can only be sent from main to worker.
    * The only way to combine passed generics and type inference is function chaining.
    */
-  mainToWorkerMessage<TReq, TRes>(): <TMessageName extends string>(
-    messageName: TMessageName
-  ) => NamespaceBuilder<
+  mainToWorkerMessage<TReq, TRes, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TRes>
+  ): TMessageDeclaration<
     TNamespaceName,
-    TMessages & {
-      [key in TMessageName]: {
-        request: TReq;
-        response: TRes;
-        meta: { direction: 'mainToWorker'; type: TMessageObjectType };
-      };
-    }
+    TMessages,
+    TRequestDefinition<TReq, TRes, TErrors, 'mainToWorker'>
   > {
-    return <TMessageName extends string>(
-      messageName: TMessageName
-    ): NamespaceBuilder<
-      TNamespaceName,
-      TMessages & {
-        [key in TMessageName]: {
-          request: TReq;
-          response: TRes;
-          meta: { direction: 'mainToWorker'; type: TMessageObjectType };
-        };
-      }
-    > => {
-      this.messages.push({ name: messageName, direction: 'mainToWorker' });
-      return this as NamespaceBuilder<
-        TNamespaceName,
-        TMessages &
-          Record<
-            TMessageName,
-            {
-              request: TReq;
-              response: TRes;
-              meta: { direction: 'mainToWorker'; type: TMessageObjectType };
-            }
-          >
-      >;
-    };
+    return this.declare('mainToWorker', undefined, options);
   }
 
   /**
    * Defines a message that can only be sent from worker to main.
    * The only way to combine passed generics and type inference is function chaining.
    */
-  workerToMainMessage<TReq, TRes>(): <TMessageName extends string>(
-    messageName: TMessageName
-  ) => NamespaceBuilder<
+  workerToMainMessage<TReq, TRes, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TRes>
+  ): TMessageDeclaration<
     TNamespaceName,
-    TMessages & {
-      [key in TMessageName]: {
-        request: TReq;
-        response: TRes;
-        meta: { direction: 'workerToMain'; type: TMessageObjectType };
-      };
-    }
+    TMessages,
+    TRequestDefinition<TReq, TRes, TErrors, 'workerToMain'>
   > {
-    return <TMessageName extends string>(
-      messageName: TMessageName
-    ): NamespaceBuilder<
-      TNamespaceName,
-      TMessages & {
-        [key in TMessageName]: {
-          request: TReq;
-          response: TRes;
-          meta: { direction: 'workerToMain'; type: TMessageObjectType };
-        };
-      }
-    > => {
-      this.messages.push({ name: messageName, direction: 'workerToMain' });
-      return this as NamespaceBuilder<
-        TNamespaceName,
-        TMessages &
-          Record<
-            TMessageName,
-            {
-              request: TReq;
-              response: TRes;
-              meta: { direction: 'workerToMain'; type: TMessageObjectType };
-            }
-          >
-      >;
-    };
+    return this.declare('workerToMain', undefined, options);
   }
 
   /**
    * Defines a message that can be sent in both directions (main ↔ worker).
    * The only way to combine passed generics and type inference is function chaining.
    */
-  bidirectionalMessage<TReq, TRes>(): <TMessageName extends string>(
-    messageName: TMessageName
-  ) => NamespaceBuilder<
+  bidirectionalMessage<TReq, TRes, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TRes>
+  ): TMessageDeclaration<
     TNamespaceName,
-    TMessages & {
-      [key in TMessageName]: {
-        request: TReq;
-        response: TRes;
-        meta: { direction: 'bidirectional'; type: TMessageObjectType };
-      };
-    }
+    TMessages,
+    TRequestDefinition<TReq, TRes, TErrors, 'bidirectional'>
+  > {
+    return this.declare('bidirectional', undefined, options);
+  }
+
+  /**
+   * Defines a fire-and-forget notification from main to worker.
+   * Events are sent with bridge.emit() and never wait for an answer.
+   */
+  mainToWorkerEvent<TPayload>(
+    options?: TEventOptions<TPayload>
+  ): TMessageDeclaration<TNamespaceName, TMessages, TEventDefinition<TPayload, 'mainToWorker'>> {
+    return this.declare('mainToWorker', 'event', options);
+  }
+
+  /**
+   * Defines a fire-and-forget notification from worker to main.
+   * Events are sent with bridge.emit() and never wait for an answer.
+   */
+  workerToMainEvent<TPayload>(
+    options?: TEventOptions<TPayload>
+  ): TMessageDeclaration<TNamespaceName, TMessages, TEventDefinition<TPayload, 'workerToMain'>> {
+    return this.declare('workerToMain', 'event', options);
+  }
+
+  /**
+   * Defines a fire-and-forget notification that can be sent in both directions.
+   * Events are sent with bridge.emit() and never wait for an answer.
+   */
+  bidirectionalEvent<TPayload>(
+    options?: TEventOptions<TPayload>
+  ): TMessageDeclaration<TNamespaceName, TMessages, TEventDefinition<TPayload, 'bidirectional'>> {
+    return this.declare('bidirectional', 'event', options);
+  }
+
+  /**
+   * Defines a streaming message from main to worker.
+   * Worker handler is an async generator, dispatch on main side returns AsyncIterable of chunks.
+   */
+  mainToWorkerStream<TReq, TChunk, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TChunk>
+  ): TMessageDeclaration<
+    TNamespaceName,
+    TMessages,
+    TStreamDefinition<TReq, TChunk, TErrors, 'mainToWorker'>
+  > {
+    return this.declare('mainToWorker', 'stream', options);
+  }
+
+  /**
+   * Defines a streaming message from worker to main.
+   * Main handler is an async generator, dispatch on worker side returns AsyncIterable of chunks.
+   */
+  workerToMainStream<TReq, TChunk, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TChunk>
+  ): TMessageDeclaration<
+    TNamespaceName,
+    TMessages,
+    TStreamDefinition<TReq, TChunk, TErrors, 'workerToMain'>
+  > {
+    return this.declare('workerToMain', 'stream', options);
+  }
+
+  /**
+   * Defines a streaming message that can be sent in both directions.
+   * Handler is an async generator, dispatch returns AsyncIterable of chunks.
+   */
+  bidirectionalStream<TReq, TChunk, TErrors extends TErrorDeclaration = never>(
+    options?: TMessageOptions<TReq, TChunk>
+  ): TMessageDeclaration<
+    TNamespaceName,
+    TMessages,
+    TStreamDefinition<TReq, TChunk, TErrors, 'bidirectional'>
   > {
+    return this.declare('bidirectional', 'stream', options);
+  }
+
+  build(): NamespaceMessages<TNamespaceName, TMessages> {
+    return new NamespaceMessages<TNamespaceName, TMessages>(this.namespaceName, this.messages);
+  }
+
+  private declare<TDefinition extends TMessageDefinition>(
+    direction: TMessageDirection,
+    kind?: TMessageEntry['kind'],
+    options?: TMessageOptions
+  ): TMessageDeclaration<TNamespaceName, TMessages, TDefinition> {
     return <TMessageName extends string>(
       messageName: TMessageName
-    ): NamespaceBuilder<
-      TNamespaceName,
-      TMessages & {
-        [key in TMessageName]: {
-          request: TReq;
-          response: TRes;
-          meta: { direction: 'bidirectional'; type: TMessageObjectType };
-        };
-      }
-    > => {
-      this.messages.push({ name: messageName, direction: 'bidirectional' });
+    ): NamespaceBuilder<TNamespaceName, TMessages & { [key in TMessageName]: TDefinition }> => {
+      this.messages.push({
+        name: messageName,
+        direction,
+        ...(kind && { kind }),
+        ...(options && { options }),
+      });
       return this as NamespaceBuilder<
         TNamespaceName,
-        TMessages &
-          Record<
-            TMessageName,
-            {
-              request: TReq;
-              response: TRes;
-              meta: { direction: 'bidirectional'; type: TMessageObjectType };
-            }
-          >
+        TMessages & { [key in TMessageName]: TDefinition }
       >;
     };
   }
-
-  build(): NamespaceMessages<TNamespaceName, TMessages> {
-    return new NamespaceMessages<TNamespaceName, TMessages>(this.namespaceName, this.messages);
-  }
 }
 
 export type TMessageBase<TNamespaceName extends string, TMessageName extends string> = {
@@ -162,17 +277,23 @@ export type TMessageBase<TNamespaceName extends string, TMessageName extends str
   meta: TMessageMeta;
 };
 
+// Request/response messages don't carry kind in meta
+type TMessageKindMeta<TKind extends TMessageKind> = TKind extends 'request'
+  ? unknown
+  : { kind: TKind };
+
 export type TMessageToListen<
   TNamespaceName extends string,
   TMessageName extends string,
   // For restrictions in .listen typings
   TDirection extends TMessageDirection = 'mainToWorker',
+  TKind extends TMessageKind = 'request',
 > = Readonly<
   TMessageBase<TNamespaceName, TMessageName> & {
     meta: {
       direction: TDirection;
       type: 'forListen';
-    };
+    } & TMessageKindMeta<TKind>;
   }
 >;
 
@@ -182,13 +303,14 @@ export type TMessageToSend<
   TRequest = unknown,
   // For restrictions in .send typings
   TDirection extends TMessageDirection = 'mainToWorker',
+  TKind extends TMessageKind = 'request',
 > = Readonly<
   TMessageBase<TNamespaceName, TMessageName> & {
     payload: TRequest;
     meta: {
       direction: TDirection;
       type: 'forSend';
-    };
+    } & TMessageKindMeta<TKind>;
   }
 >;
 
@@ -196,16 +318,33 @@ type TSendMethods<TNamespaceName extends string, TMessages extends TMessagesMap>
   [K in keyof TMessages]: (
     payload: TMessages[K]['request']
   ) => K extends string
-    ? TMessageToSend<TNamespaceName, K, TMessages[K]['request'], TMessages[K]['meta']['direction']>
+    ? TMessageToSend<
+        TNamespaceName,
+        K,
+        TMessages[K]['request'],
+        TMessages[K]['meta']['direction'],
+        TMessageKindOf<TMessages[K]>
+      >
     : never;
 };
 
 type TMessageIdentifiers<TNamespaceName extends string, TMessages extends TMessagesMap> = {
   [K in keyof TMessages]: K extends string
-    ? TMessageToListen<TNamespaceName, K, TMessages[K]['meta']['direction']>
+    ? TMessageToListen<
+        TNamespaceName,
+        K,
+        TMessages[K]['meta']['direction'],
+        TMessageKindOf<TMessages[K]>
+      >
     : never;
 };
 
+type TNamespaceNameOf<TNamespace> =
+  TNamespace extends NamespaceMessages<infer TNamespaceName, infer _> ? TNamespaceName : never;
+
+type TMessagesOf<TNamespace> =
+  TNamespace extends NamespaceMessages<infer _, infer TMessages> ? TMessages : never;
+
 export class NamespaceMessages<
   TNamespaceName extends string = string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -213,12 +352,54 @@ export class NamespaceMessages<
 > {
   private messageObjectCache?: TMessageIdentifiers<TNamespaceName, TMessages>;
   private sendObjectCache?: TSendMethods<TNamespaceName, TMessages>;
+  private contractCache?: TNamespaceContract;
 
   constructor(
     public namespaceName: TNamespaceName,
-    public messages: Array<{ name: string; direction: TMessageDirection }>
+    public messages: Array<TMessageEntry>
   ) {}
 
+  /**
+   * Namespace with only the given messages, e.g. to expose a part of the namespace to a less trusted side
+   */
+  pick<TMessageName extends keyof TMessages & string>(
+    ...messageNames: Array<TMessageName>
+  ): NamespaceMessages<TNamespaceName, Pick<TMessages, TMessageName>> {
+    return new NamespaceMessages<TNamespaceName, Pick<TMessages, TMessageName>>(
+      this.namespaceName,
+      this.messages.filter((message) => messageNames.indexOf(message.name as TMessageName) !== -1)
+    );
+  }
+
+  /**
+   * Namespace without the given messages
+   */
+  omit<TMessageName extends keyof TMessages & string>(
+    ...messageNames: Array<TMessageName>
+  ): NamespaceMessages<TNamespaceName, Omit<TMessages, TMessageName>> {
+    return new NamespaceMessages<TNamespaceName, Omit<TMessages, TMessageName>>(
+      this.namespaceName,
+      this.messages.filter((message) => messageNames.indexOf(message.name as TMessageName) === -1)
+    );
+  }
+
+  /**
+   * Message signatures and their hash, exchanged during the handshake
+   */
+  get contract(): TNamespaceContract {
+    if (!this.contractCache) {
+      this.contractCache = createContract(this.messages);
+    }
+    return this.contractCache;
+  }
+
+  /**
+   * Deterministic hash of message names, directions, kinds and schemas, independent of declaration order
+   */
+  get fingerprint(): string {
+    return this.contract.fingerprint;
+  }
+
   get message(): TMessageIdentifiers<TNamespaceName, TMessages> {
     if (!this.messageObjectCache) {
       this.messageObjectCache = this.messages.reduce(
@@ -230,6 +411,7 @@ export class NamespaceMessages<
             meta: {
               direction: message.direction,
               type: 'forListen',
+              ...(message.kind && { kind: message.kind }),
             },
           },
         }),
@@ -254,6 +436,7 @@ export class NamespaceMessages<
             meta: {
               direction: message.direction,
               type: 'forSend',
+              ...(message.kind && { kind: message.kind }),
             },
           }),
         }),
@@ -263,3 +446,45 @@ export class NamespaceMessages<
     return this.sendObjectCache;
   }
 }
+
+// Message names declared by both namespaces, untyped namespaces are checked at runtime only
+type TClashingMessageNames<TFirst, TSecond> = string extends
+  | keyof TMessagesOf<TFirst>
+  | keyof TMessagesOf<TSecond>
+  ? never
+  : Extract<keyof TMessagesOf<TFirst>, keyof TMessagesOf<TSecond>>;
+
+// Turns a name clash into a compile error that lists the clashing names
+type TWithoutClashes<TFirst, TSecond> = [TClashingMessageNames<TFirst, TSecond>] extends [never]
+  ? unknown
+  : { clashingMessageNames: TClashingMessageNames<TFirst, TSecond> };
+
+/**
+ * Combines messages of two namespaces into one, named after the first namespace.
+ * Namespaces declaring the same message name can't be merged, clashes fail to compile.
+ *
+ * @example
+ * ```typescript
+ * const appNamespace = mergeNamespaces(coreNamespace, billingNamespace);
+ * ```
+ */
+export function mergeNamespaces<
+  TFirst extends NamespaceMessages,
+  TSecond extends NamespaceMessages,
+>(
+  first: TFirst,
+  second: TSecond & TWithoutClashes<TFirst, TSecond>
+): NamespaceMessages<TNamespaceNameOf<TFirst>, TMessagesOf<TFirst> & TMessagesOf<TSecond>> {
+  const firstNames = first.messages.map((message) => message.name);
+  const clashingNames = second.messages
+    .map((message) => message.name)
+    .filter((name) => firstNames.indexOf(name) !== -1);
+  if (clashingNames.length > 0) {
+    throw new Error(`${MESSAGE_NAME_CLASH_ERROR}: ${clashingNames.join(', ')}`);
+  }
+
+  return new NamespaceMessages(first.namespaceName as TNamespaceNameOf<TFirst>, [
+    ...first.messages,
+    ...second.messages,
+  ]);
+}
@@ -0,0 +1,72 @@
+import type { TDispatchOptions, TEmitOptions } from './bridge';
+import type { NamespaceMessages, TMessageKindOf } from './builder';
+import type { TBridgeSide } from './types';
+import { canSendFromSide } from './utils';
+
+type TClientMethod<TDefinition extends { request: unknown; response: unknown }> =
+  TMessageKindOf<TDefinition> extends 'event'
+    ? (payload: TDefinition['request'], options?: TEmitOptions) => Promise<void>
+    : TMessageKindOf<TDefinition> extends 'stream'
+      ? (
+          payload: TDefinition['request'],
+          options?: TDispatchOptions
+        ) => AsyncIterable<TDefinition['response']>
+      : (
+          payload: TDefinition['request'],
+          options?: TDispatchOptions
+        ) => Promise<TDefinition['response']>;
+
+/**
+ * Names of messages the side is allowed to send
+ */
+export type TSendableMessageNames<TMessages, TSide extends TBridgeSide> = {
+  [K in keyof TMessages]: TMessages[K] extends { meta: { direction: infer TDirection } }
+    ? TDirection extends 'bidirectional' | `${TSide}To${string}`
+      ? K
+      : never
+    : never;
+}[keyof TMessages];
+
+/**
+ * Typed methods for all messages the bridge side can send:
+ * requests resolve to the response, streams return AsyncIterable of chunks, events resolve once sent
+ */
+export type TBridgeClient<Namespace, TSide extends TBridgeSide> =
+  Namespace extends NamespaceMessages<infer _, infer TMessages>
+    ? {
+        readonly [K in TSendableMessageNames<TMessages, TSide> & string]: TClientMethod<
+          TMessages[K]
+        >;
+      }
+    : never;
+
+/**
+ * Bridge methods used by the client
+ */
+type TClientTransport = {
+  dispatch(message: unknown, options?: TDispatchOptions): unknown;
+  emit(message: unknown, options?: TEmitOptions): Promise<void>;
+};
+
+/**
+ * Build client methods for messages sendable from the side, calls go through dispatch and emit
+ */
+export function createClient<Namespace extends NamespaceMessages, TSide extends TBridgeSide>(
+  namespace: Namespace,
+  side: TSide,
+  transport: TClientTransport
+): TBridgeClient<Namespace, TSide> {
+  const send = namespace.send as Record<string, (payload: unknown) => unknown>;
+  const client: Record<string, (payload: unknown, options?: TDispatchOptions) => unknown> = {};
+
+  namespace.messages
+    .filter((message) => canSendFromSide(message.direction, side))
+    .forEach(({ name, kind }) => {
+      client[name] =
+        kind === 'event'
+          ? (payload, options): Promise<void> => transport.emit(send[name](payload), options)
+          : (payload, options): unknown => transport.dispatch(send[name](payload), options);
+    });
+
+  return client as TBridgeClient<Namespace, TSide>;
+}
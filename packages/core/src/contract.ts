@@ -0,0 +1,108 @@
+import type { TMessageEntry } from './builder';
+import type { TSchema } from './schema';
+
+/**
+ * Message definitions of a namespace, exchanged during the handshake to detect
+ * sides built from different versions of the namespace
+ */
+export type TNamespaceContract = {
+  fingerprint: string;
+  /** Signature (direction, kind and schemas) by message name */
+  messages: { [messageName: string]: string };
+};
+
+/**
+ * Messages that differ between local and remote namespace definitions
+ */
+export type TContractDiff = {
+  localFingerprint: string;
+  remoteFingerprint: string;
+  /** Declared only by this side */
+  missingRemotely: Array<string>;
+  /** Declared only by the remote side */
+  missingLocally: Array<string>;
+  /** Declared by both sides with different direction, kind or schemas */
+  changed: Array<string>;
+};
+
+/**
+ * What a bridge does when the remote namespace definitions differ:
+ * connect silently, log a warning to the console and connect, fail the connection with CONTRACT_MISMATCH,
+ * or call a custom handler and connect
+ */
+export type TContractMismatchReaction =
+  | 'ignore'
+  | 'warn'
+  | 'reject'
+  | ((diff: TContractDiff) => void);
+
+// FNV-1a, 32 bit
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const HEX_RADIX = 16;
+const HASH_LENGTH = 8;
+
+function hashString(value: string): string {
+  let hash = FNV_OFFSET_BASIS;
+  for (let index = 0; index < value.length; index++) {
+    hash = Math.imul(hash ^ value.charCodeAt(index), FNV_PRIME);
+  }
+  return (hash >>> 0).toString(HEX_RADIX).padStart(HASH_LENGTH, '0');
+}
+
+// Schemas can't be compared, only their presence and vendor are part of the signature
+function describeSchema(schema?: TSchema<unknown>): string {
+  if (!schema) {
+    return '-';
+  }
+  if (typeof schema === 'function') {
+    return 'guard';
+  }
+  return '~standard' in schema ? schema['~standard'].vendor : 'adapter';
+}
+
+function getMessageSignature(message: TMessageEntry): string {
+  const schema = message.options?.schema;
+  return [
+    message.direction,
+    message.kind ?? 'request',
+    describeSchema(schema?.request),
+    describeSchema(schema?.response),
+  ].join(':');
+}
+
+/**
+ * Deterministic contract of the message list, independent of declaration order
+ */
+export function createContract(messages: ReadonlyArray<TMessageEntry>): TNamespaceContract {
+  const signatures: TNamespaceContract['messages'] = {};
+  messages.forEach((message) => {
+    signatures[message.name] = getMessageSignature(message);
+  });
+
+  const lines = Object.keys(signatures)
+    .sort()
+    .map((name) => `${name}=${signatures[name]}`);
+  return { fingerprint: hashString(lines.join('\n')), messages: signatures };
+}
+
+function hasMessage(contract: TNamespaceContract, messageName: string): boolean {
+  return Object.prototype.hasOwnProperty.call(contract.messages, messageName);
+}
+
+export function diffContracts(
+  local: TNamespaceContract,
+  remote: TNamespaceContract
+): TContractDiff {
+  const localNames = Object.keys(local.messages).sort();
+  const remoteNames = Object.keys(remote.messages).sort();
+  return {
+    localFingerprint: local.fingerprint,
+    remoteFingerprint: remote.fingerprint,
+    missingRemotely: localNames.filter((name) => !hasMessage(remote, name)),
+    missingLocally: remoteNames.filter((name) => !hasMessage(local, name)),
+    changed: localNames.filter(
+      (name) => hasMessage(remote, name) && remote.messages[name] !== local.messages[name]
+    ),
+  };
+}
@@ -0,0 +1,207 @@
+import type { TValidationIssue } from './schema';
+
+/**
+ * Error shape transferred in 'error' frames
+ */
+export type TSerializedError = {
+  name: string;
+  message: string;
+  code?: string;
+  data?: unknown;
+  stack?: string;
+  cause?: TSerializedError;
+};
+
+/**
+ * Turns anything thrown by a handler into a serializable error shape
+ */
+export type TErrorSerializer = (error: unknown) => TSerializedError;
+
+/**
+ * Error declaration for a message, see NamespaceBuilder message generics
+ * @example { code: 'NOT_FOUND'; data: { id: string } } | { code: 'FORBIDDEN' }
+ */
+export type TErrorDeclaration = { code: string; data?: unknown };
+
+// Nested causes are cut to keep frames small and avoid cycles
+const MAX_CAUSE_DEPTH = 5;
+const UNKNOWN_ERROR_MESSAGE = 'Unknown error';
+
+/**
+ * Error with a code, meant to be thrown by handlers so the caller can narrow on `code`
+ *
+ * @example
+ * ```typescript
+ * bridge.listen(message.getUser, async ({ id }) => {
+ *   const user = await db.find(id);
+ *   if (!user) {
+ *     throw new BridgeError('NOT_FOUND', `User ${id} not found`, { id });
+ *   }
+ *   return user;
+ * });
+ * ```
+ */
+export class BridgeError<TCode extends string = string, TData = unknown> extends Error {
+  readonly code: TCode;
+  readonly data?: TData;
+
+  constructor(code: TCode, message: string, data?: TData) {
+    super(message);
+    // Restore prototype chain broken by extending Error with ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'BridgeError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Data of validation errors, see BridgeValidationError
+ */
+export type TValidationErrorData = {
+  messageName: string;
+  /** Which payload failed: request (or event) payload, or response (or stream chunk) */
+  target: 'request' | 'response';
+  issues: ReadonlyArray<TValidationIssue>;
+};
+
+/**
+ * Payload didn't match the message schema.
+ * Invalid requests are answered with this error (caller receives BridgeRemoteError with the same code),
+ * invalid responses reject dispatch locally.
+ */
+export class BridgeValidationError extends BridgeError<'VALIDATION_ERROR', TValidationErrorData> {
+  readonly issues: ReadonlyArray<TValidationIssue>;
+
+  constructor(data: TValidationErrorData) {
+    super(
+      'VALIDATION_ERROR',
+      `Invalid ${data.target} for message '${data.messageName}': ${data.issues
+        .map((issue) => issue.message)
+        .join('; ')}`,
+      data
+    );
+    this.name = 'BridgeValidationError';
+    this.issues = data.issues;
+  }
+}
+
+/**
+ * Error received from the remote bridge, rejected from dispatch and thrown from stream iteration.
+ * `name` is the name of the original error, `remoteStack` is its stack on the remote side.
+ */
+export class BridgeRemoteError<TCode extends string = string, TData = unknown> extends Error {
+  readonly code?: TCode;
+  readonly data?: TData;
+  readonly remoteStack?: string;
+  readonly cause?: BridgeRemoteError;
+
+  constructor(serialized: TSerializedError) {
+    super(serialized.message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = serialized.name;
+    this.code = serialized.code as TCode | undefined;
+    this.data = serialized.data as TData | undefined;
+    this.remoteStack = serialized.stack;
+    this.cause = serialized.cause && new BridgeRemoteError(serialized.cause);
+  }
+}
+
+const TIMEOUT_ERROR_CODE = 'TIMEOUT';
+
+/**
+ * No answer in time: dispatch rejects with it, stream iteration throws it
+ */
+export function createTimeoutError(message: string): BridgeError<typeof TIMEOUT_ERROR_CODE> {
+  return new BridgeError(TIMEOUT_ERROR_CODE, message);
+}
+
+/**
+ * Outcome of a failed message, shared by metrics, tracing and logging
+ * - 'remoteError' - remote handler failed
+ * - 'timeout' - no answer in time
+ * - 'cancel' - aborted with AbortSignal or cancelled by the caller
+ * - 'error' - any other failure: validation, middleware, local handler
+ */
+export type TErrorOutcome = 'remoteError' | 'timeout' | 'cancel' | 'error';
+
+export function getErrorOutcome(error: unknown): TErrorOutcome {
+  if (error instanceof BridgeRemoteError) {
+    return 'remoteError';
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'cancel';
+  }
+  return error instanceof BridgeError && error.code === TIMEOUT_ERROR_CODE ? 'timeout' : 'error';
+}
+
+function isSerializedError(value: unknown): value is TSerializedError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TSerializedError).name === 'string' &&
+    typeof (value as TSerializedError).message === 'string'
+  );
+}
+
+function describeThrownValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value || UNKNOWN_ERROR_MESSAGE;
+  }
+
+  try {
+    return JSON.stringify(value) ?? UNKNOWN_ERROR_MESSAGE;
+  } catch {
+    return String(value);
+  }
+}
+
+function serializeErrorWithDepth(error: unknown, depth: number): TSerializedError {
+  if (!(error instanceof Error)) {
+    return {
+      name: 'Error',
+      message: describeThrownValue(error),
+      // Keep thrown objects available to the caller, functions can't be transferred
+      ...(typeof error === 'object' && error !== null && { data: error }),
+    };
+  }
+
+  const { code, data, cause } = error as Error & {
+    code?: unknown;
+    data?: unknown;
+    cause?: unknown;
+  };
+  return {
+    name: error.name,
+    message: error.message || UNKNOWN_ERROR_MESSAGE,
+    stack: error.stack,
+    ...((typeof code === 'string' || typeof code === 'number') && { code: String(code) }),
+    ...(data !== undefined && { data }),
+    ...(cause !== undefined &&
+      depth < MAX_CAUSE_DEPTH && { cause: serializeErrorWithDepth(cause, depth + 1) }),
+  };
+}
+
+/**
+ * Default error serializer: keeps name, message, stack, code, data and cause of Error instances,
+ * other thrown values become an error with their JSON representation as message
+ */
+export const serializeError: TErrorSerializer = (error) => serializeErrorWithDepth(error, 0);
+
+/**
+ * Restore error received in an 'error' frame, plain string errors come from older bridges
+ */
+export function deserializeError(error: unknown): BridgeRemoteError {
+  return new BridgeRemoteError(
+    isSerializedError(error) ? error : { name: 'Error', message: describeThrownValue(error) }
+  );
+}
+
+/**
+ * Typed remote errors for declared error union
+ */
+export type TRemoteErrorOf<TErrors> = [TErrors] extends [never]
+  ? BridgeRemoteError
+  : TErrors extends { code: infer TCode extends string }
+    ? BridgeRemoteError<TCode, TErrors extends { data: infer TData } ? TData : undefined>
+    : never;
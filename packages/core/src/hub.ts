@@ -0,0 +1,140 @@
+import { Bridge, type TBridgeConfig } from './bridge';
+import type { NamespaceMessages } from './builder';
+import type { IChannel } from './channel';
+import type { TBridgeSide, TInternalMessage } from './types';
+
+type TRoute = (message: TInternalMessage) => void;
+
+/**
+ * Hub side of a namespace channel, keeps channels unaware of each other
+ */
+type THubConnection = {
+  initialize(): Promise<void>;
+  register(namespaceName: string, route: TRoute): void;
+  unregister(namespaceName: string): void;
+};
+
+/**
+ * Virtual channel of a single namespace, all namespaces share the hub channel
+ */
+class NamespaceChannel<TSide extends TBridgeSide> implements IChannel<TSide> {
+  readonly side: TSide;
+  private isDestroyed = false;
+
+  constructor(
+    private channel: IChannel<TSide>,
+    private namespaceName: string,
+    private hub: THubConnection
+  ) {
+    this.side = channel.side;
+  }
+
+  initialize(): Promise<void> {
+    return this.hub.initialize();
+  }
+
+  send(message: TInternalMessage): void {
+    this.channel.send(message);
+  }
+
+  onMessage(handler: (message: TInternalMessage) => void): void {
+    this.hub.register(this.namespaceName, handler);
+  }
+
+  isReady(): boolean {
+    return !this.isDestroyed && this.channel.isReady();
+  }
+
+  /**
+   * Called by Bridge.destroy(), the shared channel stays open for other namespaces
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+    this.hub.unregister(this.namespaceName);
+  }
+}
+
+/**
+ * Multiplexes bridges of several namespaces over a single channel.
+ * Frames are routed by namespace, so bridges never see requests or responses of other namespaces.
+ *
+ * @example
+ * ```typescript
+ * const hub = new BridgeHub(new IframeChannel({ side: 'main', iframe }));
+ *
+ * const users = hub.bridge(usersNamespace);
+ * const reports = hub.bridge(reportsNamespace, { timeout: 120000 });
+ *
+ * // Destroys all bridges and the shared channel
+ * hub.destroy();
+ * ```
+ */
+export class BridgeHub<TSide extends TBridgeSide> {
+  static readonly ERRORS = {
+    NAMESPACE_TAKEN: 'Namespace already has a bridge in this hub',
+  };
+
+  private routes = new Map<string, TRoute>();
+  private bridges = new Map<string, Bridge<NamespaceMessages, IChannel<TSide>>>();
+  private initialization?: Promise<void>;
+  private connection: THubConnection = {
+    initialize: () => this.initializeChannel(),
+    register: (namespaceName, route) => {
+      this.routes.set(namespaceName, route);
+    },
+    unregister: (namespaceName) => {
+      this.routes.delete(namespaceName);
+      this.bridges.delete(namespaceName);
+    },
+  };
+
+  constructor(private channel: IChannel<TSide>) {}
+
+  /**
+   * Create a bridge for the namespace on the shared channel.
+   * Only one bridge per namespace is allowed until it is destroyed.
+   */
+  bridge<Namespace extends NamespaceMessages>(
+    namespace: Namespace,
+    config?: TBridgeConfig
+  ): Bridge<Namespace, IChannel<TSide>> {
+    const { namespaceName } = namespace;
+    if (this.bridges.has(namespaceName)) {
+      throw new Error(`${BridgeHub.ERRORS.NAMESPACE_TAKEN}: ${namespaceName}`);
+    }
+
+    const bridge = new Bridge<Namespace, IChannel<TSide>>(
+      namespace,
+      new NamespaceChannel(this.channel, namespaceName, this.connection),
+      config
+    );
+    this.bridges.set(namespaceName, bridge);
+    return bridge;
+  }
+
+  /**
+   * Destroy all bridges of the hub and the shared channel
+   */
+  destroy(): void {
+    this.bridges.forEach((bridge) => {
+      bridge.destroy();
+    });
+    this.bridges.clear();
+    this.routes.clear();
+    this.channel.destroy();
+  }
+
+  private initializeChannel(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = Promise.resolve(this.channel.initialize()).then(() => {
+        this.channel.onMessage(this.route.bind(this));
+      });
+    }
+    return this.initialization;
+  }
+
+  private route(message: TInternalMessage): void {
+    // Frames of namespaces without a bridge in this hub are ignored, like frames of unknown channels
+    this.routes.get(message.namespace)?.(message);
+  }
+}
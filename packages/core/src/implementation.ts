@@ -0,0 +1,40 @@
+import type { THandlerContext } from './bridge';
+import type { NamespaceMessages, TMessageKindOf } from './builder';
+import type { TSendableMessageNames } from './client';
+import type { TBridgeSide } from './types';
+
+/**
+ * Handler of a message definition: async generator for streams, plain function otherwise
+ */
+export type TMessageHandler<
+  TDefinition extends { request: unknown; response: unknown },
+  TContext = THandlerContext,
+> =
+  TMessageKindOf<TDefinition> extends 'stream'
+    ? (payload: TDefinition['request'], context: TContext) => AsyncIterable<TDefinition['response']>
+    : (
+        payload: TDefinition['request'],
+        context: TContext
+      ) => TDefinition['response'] | Promise<TDefinition['response']>;
+
+type TRemoteSide<TSide extends TBridgeSide> = TSide extends 'main' ? 'worker' : 'main';
+
+/**
+ * Handlers for every message the bridge side receives, see Bridge.implement
+ */
+export type TBridgeImplementation<Namespace, TSide extends TBridgeSide> =
+  Namespace extends NamespaceMessages<infer TNamespaceName, infer TMessages>
+    ? {
+        [K in TSendableMessageNames<TMessages, TRemoteSide<TSide>> & string]: TMessageHandler<
+          TMessages[K],
+          THandlerContext<TNamespaceName, K>
+        >;
+      }
+    : never;
+
+/**
+ * Rejects handlers for messages the side doesn't receive, also when handlers are not an object literal
+ */
+export type TExactImplementation<TImplementation, THandlers> = THandlers & {
+  [K in Exclude<keyof THandlers, keyof TImplementation>]: never;
+};
@@ -1,17 +1,96 @@
 // Core types and interfaces
-export type { TInternalMessage, TSerializer } from './types';
+export type { THeaders, TInternalMessage, TSerializer } from './types';
 export { DEFAULT_SERIALIZER } from './types';
 
 // Channel interface (for implementing channels in other packages)
 export type { IChannel, TChannelConfig } from './channel';
 
 // Builder
-export { NamespaceBuilder, NamespaceMessages } from './builder';
+export { NamespaceBuilder, NamespaceMessages, mergeNamespaces } from './builder';
+export type { TMessageOptions, TEventOptions } from './builder';
 export type { TMessageDirection, TBridgeSide } from './types';
 
 // Bridge
 export { Bridge } from './bridge';
-export type { TBridgeConfig, TBridgeMiddleware } from './bridge';
+export type {
+  TBridgeConfig,
+  TDispatchOptions,
+  TEmitOptions,
+  TErrorReporter,
+  TFrameListener,
+  THandlerContext,
+} from './bridge';
+export type { TBridgeClient } from './client';
+export type { TBridgeImplementation, TMessageHandler } from './implementation';
+export { BridgeHub } from './hub';
+
+// Middleware
+export type {
+  TBridgeMiddleware,
+  TMessageHooks,
+  TMessageMiddleware,
+  TMessageMiddlewareContext,
+  TMiddleware,
+  TMiddlewareContext,
+  TMiddlewareNext,
+  TMiddlewarePipeline,
+  TMiddlewareScope,
+} from './middleware';
+
+// Metrics
+export { MetricsCollector } from './metrics';
+export type {
+  THistogram,
+  TMessageMetrics,
+  TMetricsOptions,
+  TMetricsOutcome,
+  TMetricsSample,
+  TMetricsSnapshot,
+  TPayloadSizeStats,
+} from './metrics';
+
+// Protocol
+export { PROTOCOL_VERSION } from './protocol';
+export type { TNamespaceContract, TContractDiff, TContractMismatchReaction } from './contract';
+
+// Errors
+export {
+  BridgeError,
+  BridgeRemoteError,
+  BridgeValidationError,
+  getErrorOutcome,
+  serializeError,
+} from './errors';
+export type {
+  TErrorOutcome,
+  TSerializedError,
+  TValidationErrorData,
+  TErrorSerializer,
+  TErrorDeclaration,
+  TRemoteErrorOf,
+} from './errors';
+
+// Schema validation
+export type {
+  TSchema,
+  TSchemaOutput,
+  TSchemaAdapter,
+  TStandardSchema,
+  TTypeGuard,
+  TValidationIssue,
+  TValidationResult,
+} from './schema';
+
+// Retry policies
+export { fixedRetryPolicy, exponentialRetryPolicy } from './retry';
+export type {
+  TRetryPolicy,
+  TRetryContext,
+  TRetryReason,
+  TRetryOn,
+  TFixedRetryOptions,
+  TExponentialRetryOptions,
+} from './retry';
 
 // Utils
-export { generateMessageId } from './utils';
+export { canSendFromSide, generateMessageId } from './utils';
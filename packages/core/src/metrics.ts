@@ -0,0 +1,313 @@
+import type { TErrorReporter } from './bridge';
+import { type TErrorOutcome, getErrorOutcome } from './errors';
+import type { TMiddleware, TMiddlewareContext, TMiddlewarePipeline } from './middleware';
+import type { TMessageKind } from './types';
+import { rethrowAsync } from './utils';
+
+/**
+ * How a message ended
+ * - 'success' - response received or handled, event sent or handled
+ * - 'remoteError' - remote handler failed (dispatch only)
+ * - 'timeout' - no answer in time (dispatch only)
+ * - 'cancel' - aborted with AbortSignal or cancelled by the caller
+ * - 'error' - any other failure: validation, middleware, local handler
+ */
+export type TMetricsOutcome = 'success' | TErrorOutcome;
+
+/**
+ * Single finished message, passed to subscribers
+ */
+export type TMetricsSample = {
+  namespace: string;
+  name: string;
+  pipeline: TMiddlewarePipeline;
+  kind: TMessageKind;
+  outcome: TMetricsOutcome;
+  /** ms, for streams until the last chunk */
+  duration: number;
+  requestSize: number;
+  /** Sum of chunk sizes for streams, 0 for events and failures */
+  responseSize: number;
+};
+
+/**
+ * Cumulative histogram, counts[i] is the number of values <= bounds[i], the last count includes all values
+ */
+export type THistogram = {
+  bounds: ReadonlyArray<number>;
+  counts: Array<number>;
+  sum: number;
+  count: number;
+};
+
+export type TPayloadSizeStats = {
+  total: number;
+  max: number;
+};
+
+/**
+ * Metrics of one message in one pipeline: round trip on dispatch, handling time on handle
+ */
+export type TMessageMetrics = {
+  namespace: string;
+  name: string;
+  pipeline: TMiddlewarePipeline;
+  /** Messages started and not finished yet, for dispatch it follows pending requests of the bridge */
+  inFlight: number;
+  outcomes: { [TOutcome in TMetricsOutcome]: number };
+  latency: THistogram;
+  requestSize: TPayloadSizeStats;
+  responseSize: TPayloadSizeStats;
+};
+
+export type TMetricsSnapshot = {
+  inFlight: number;
+  messages: Array<TMessageMetrics>;
+};
+
+export type TMetricsOptions = {
+  /**
+   * Upper bounds of latency buckets in ms
+   * @default [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+   */
+  latencyBuckets?: ReadonlyArray<number>;
+  /**
+   * Size of a payload, JSON length in characters by default.
+   * Return 0 to skip measuring, e.g. for large binary payloads.
+   */
+  getPayloadSize?(payload: unknown): number;
+  /**
+   * Receives errors thrown by subscribers, the measured message is not affected by them
+   * @default rethrows the error asynchronously, like Bridge does
+   */
+  reportError?: TErrorReporter;
+};
+
+/* eslint-disable @typescript-eslint/no-magic-numbers -- bucket bounds in ms */
+const DEFAULT_LATENCY_BUCKETS: ReadonlyArray<number> = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+/* eslint-enable @typescript-eslint/no-magic-numbers */
+
+function getJsonSize(payload: unknown): number {
+  if (payload === undefined) {
+    return 0;
+  }
+  try {
+    return JSON.stringify(payload)?.length ?? 0;
+  } catch {
+    // Circular or not serializable as JSON
+    return 0;
+  }
+}
+
+function createHistogram(bounds: ReadonlyArray<number>): THistogram {
+  return { bounds, counts: bounds.map(() => 0).concat(0), sum: 0, count: 0 };
+}
+
+function observe(histogram: THistogram, value: number): void {
+  histogram.bounds.forEach((bound, index) => {
+    if (value <= bound) {
+      histogram.counts[index]++;
+    }
+  });
+  histogram.counts[histogram.bounds.length]++;
+  histogram.sum += value;
+  histogram.count++;
+}
+
+function addSize(stats: TPayloadSizeStats, size: number): void {
+  stats.total += size;
+  stats.max = Math.max(stats.max, size);
+}
+
+function copyMetrics(metrics: TMessageMetrics): TMessageMetrics {
+  return {
+    ...metrics,
+    outcomes: { ...metrics.outcomes },
+    latency: { ...metrics.latency, counts: metrics.latency.counts.slice() },
+    requestSize: { ...metrics.requestSize },
+    responseSize: { ...metrics.responseSize },
+  };
+}
+
+/**
+ * Collects latency, outcomes, payload sizes and in-flight messages per message.
+ * One collector can be shared by several bridges, e.g. all bridges of a BridgeHub.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * bridge.use(metrics.middleware);
+ *
+ * metrics.subscribe((sample) => {
+ *   if (sample.outcome === 'timeout') reportTimeout(sample.name);
+ * });
+ * const { messages } = metrics.snapshot();
+ * ```
+ */
+export class MetricsCollector {
+  /** Register with bridge.use(), place it first to measure time spent in other middleware too */
+  readonly middleware: TMiddleware;
+  private metrics = new Map<string, TMessageMetrics>();
+  private listeners: Array<(sample: TMetricsSample) => void> = [];
+  private latencyBuckets: ReadonlyArray<number>;
+  private getPayloadSize: (payload: unknown) => number;
+  private reportError: TErrorReporter;
+
+  constructor(options: TMetricsOptions = {}) {
+    this.latencyBuckets = options.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS;
+    this.reportError = options.reportError ?? rethrowAsync;
+    this.getPayloadSize = (payload): number =>
+      options.getPayloadSize ? options.getPayloadSize(payload) : getJsonSize(payload);
+    this.middleware = (ctx, next): Promise<void> => this.measure(ctx, next);
+  }
+
+  /**
+   * Copy of the current metrics
+   */
+  snapshot(): TMetricsSnapshot {
+    const messages: Array<TMessageMetrics> = [];
+    this.metrics.forEach((metrics) => {
+      messages.push(copyMetrics(metrics));
+    });
+    return {
+      inFlight: messages.reduce((total, metrics) => total + metrics.inFlight, 0),
+      messages,
+    };
+  }
+
+  /**
+   * Call listener for every finished message, returns a function removing it
+   */
+  subscribe(listener: (sample: TMetricsSample) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  /**
+   * Forget collected metrics, in-flight messages are kept
+   */
+  reset(): void {
+    this.metrics.forEach((metrics, key) => {
+      this.metrics.set(key, { ...this.createMetrics(metrics), inFlight: metrics.inFlight });
+    });
+  }
+
+  private async measure(ctx: TMiddlewareContext, next: () => Promise<void>): Promise<void> {
+    const startedAt = Date.now();
+    const requestSize = this.getPayloadSize(ctx.request);
+    const key = `${ctx.pipeline}:${ctx.namespace}:${ctx.name}`;
+    this.getMetrics(key, ctx).inFlight++;
+
+    let isRecorded = false;
+    // Recorded once, even when finishing a stream ends up in its catch block
+    const finish = (outcome: TMetricsOutcome, responseSize = 0): void => {
+      if (isRecorded) {
+        return;
+      }
+      isRecorded = true;
+      this.record(key, {
+        namespace: ctx.namespace,
+        name: ctx.name,
+        pipeline: ctx.pipeline,
+        kind: ctx.kind,
+        outcome,
+        duration: Date.now() - startedAt,
+        requestSize,
+        responseSize,
+      });
+    };
+
+    try {
+      await next();
+    } catch (error) {
+      finish(getErrorOutcome(error));
+      throw error;
+    }
+
+    if (ctx.kind === 'stream') {
+      this.getMetrics(key, ctx).inFlight--;
+      ctx.response = this.measureStream(ctx.response as AsyncIterable<unknown>, key, finish);
+    } else {
+      finish('success', ctx.kind === 'event' ? 0 : this.getPayloadSize(ctx.response));
+    }
+  }
+
+  /**
+   * Streams are in flight while the request is sent and from the first read until reading stops.
+   * A stream that is never read is not recorded instead of staying in flight forever.
+   */
+  private async *measureStream(
+    source: AsyncIterable<unknown>,
+    key: string,
+    finish: (outcome: TMetricsOutcome, responseSize?: number) => void
+  ): AsyncIterableIterator<unknown> {
+    (this.metrics.get(key) as TMessageMetrics).inFlight++;
+    let responseSize = 0;
+    let isFinished = false;
+    try {
+      for await (const chunk of source) {
+        responseSize += this.getPayloadSize(chunk);
+        yield chunk;
+      }
+      isFinished = true;
+      finish('success', responseSize);
+    } catch (error) {
+      isFinished = true;
+      finish(getErrorOutcome(error), responseSize);
+      throw error;
+    } finally {
+      // Consumer stopped reading before the end
+      if (!isFinished) {
+        finish('cancel', responseSize);
+      }
+    }
+  }
+
+  private record(key: string, sample: TMetricsSample): void {
+    const metrics = this.metrics.get(key) as TMessageMetrics;
+    metrics.inFlight--;
+    metrics.outcomes[sample.outcome]++;
+    observe(metrics.latency, sample.duration);
+    addSize(metrics.requestSize, sample.requestSize);
+    addSize(metrics.responseSize, sample.responseSize);
+
+    this.listeners.forEach((listener) => {
+      // A failing subscriber must not fail the message
+      try {
+        listener(sample);
+      } catch (error) {
+        this.reportError(error);
+      }
+    });
+  }
+
+  private getMetrics(key: string, ctx: TMiddlewareContext): TMessageMetrics {
+    let metrics = this.metrics.get(key);
+    if (!metrics) {
+      metrics = this.createMetrics(ctx);
+      this.metrics.set(key, metrics);
+    }
+    return metrics;
+  }
+
+  private createMetrics({
+    namespace,
+    name,
+    pipeline,
+  }: Pick<TMessageMetrics, 'namespace' | 'name' | 'pipeline'>): TMessageMetrics {
+    return {
+      namespace,
+      name,
+      pipeline,
+      inFlight: 0,
+      outcomes: { success: 0, remoteError: 0, timeout: 0, cancel: 0, error: 0 },
+      latency: createHistogram(this.latencyBuckets),
+      requestSize: { total: 0, max: 0 },
+      responseSize: { total: 0, max: 0 },
+    };
+  }
+}
@@ -0,0 +1,263 @@
+import type { TMessageBase, TMessageKindOf } from './builder';
+import { mapAsyncIterable } from './stream';
+import type { THeaders, TMessageKind } from './types';
+
+/**
+ * - 'dispatch' - outgoing messages: dispatch(), emit() and the client
+ * - 'handle' - incoming messages, around the handler
+ */
+export type TMiddlewarePipeline = 'dispatch' | 'handle';
+
+/**
+ * Context of a single message passed through the middleware pipeline
+ */
+export type TMiddlewareContext = {
+  readonly pipeline: TMiddlewarePipeline;
+  /**
+   * Message id, the same on both sides.
+   * Requests keep it across retry attempts, see the idempotency key of request frames.
+   */
+  readonly id: string;
+  readonly namespace: string;
+  readonly name: string;
+  readonly kind: TMessageKind;
+  /** Request (or event) payload, replace it before next() to transform the request */
+  request: unknown;
+  /** Sent with the request on dispatch, received with it on handle */
+  headers: THeaders;
+  /**
+   * Set by next(): the response, for streams an AsyncIterable of chunks.
+   * Set it without calling next() to short-circuit: nothing is sent (dispatch) or the handler is skipped (handle).
+   */
+  response?: unknown;
+  /** Received with the response on dispatch, sent with it on handle */
+  responseHeaders: THeaders;
+  /** Data shared by middleware processing the same message */
+  state: { [key: string]: unknown };
+};
+
+/**
+ * Runs the rest of the pipeline, can be called again to retry
+ */
+export type TMiddlewareNext = () => Promise<void>;
+
+/**
+ * Onion-style middleware, code before next() sees the request, code after it sees the response
+ *
+ * @example
+ * ```typescript
+ * bridge.use(async (ctx, next) => {
+ *   const startedAt = Date.now();
+ *   await next();
+ *   console.log(`${ctx.name} took ${Date.now() - startedAt}ms`);
+ * });
+ * ```
+ */
+export type TMiddleware = (ctx: TMiddlewareContext, next: TMiddlewareNext) => Promise<void> | void;
+
+/**
+ * Hook object middleware, hooks transform payloads at fixed points of both pipelines.
+ * Headers added in onBeforeSend are sent with the request, headers added in onAfterHandle with the response.
+ */
+export type TBridgeMiddleware = {
+  // Outgoing messages (dispatch)
+  onBeforeSend?(
+    namespace: string,
+    messageName: string,
+    request: unknown,
+    headers: THeaders
+  ): unknown | Promise<unknown>;
+  onAfterReceive?(
+    namespace: string,
+    messageName: string,
+    response: unknown,
+    headers: Readonly<THeaders>
+  ): unknown | Promise<unknown>;
+
+  // Incoming messages (listen)
+  onBeforeHandle?(
+    namespace: string,
+    messageName: string,
+    request: unknown,
+    headers: THeaders
+  ): unknown | Promise<unknown>;
+  onAfterHandle?(
+    namespace: string,
+    messageName: string,
+    response: unknown,
+    headers: THeaders
+  ): unknown | Promise<unknown>;
+
+  // Common
+  onError?(namespace: string, messageName: string, error: Error): void;
+};
+
+// Streams expose chunks to middleware
+type TMiddlewareResponseOf<TDefinition extends { response: unknown }> =
+  TMessageKindOf<TDefinition> extends 'stream'
+    ? AsyncIterable<TDefinition['response']>
+    : TDefinition['response'];
+
+/**
+ * Middleware context of a single message, see Bridge.useFor
+ */
+export type TMessageMiddlewareContext<
+  TNamespaceName extends string,
+  TMessageName extends string,
+  TDefinition extends { request: unknown; response: unknown },
+> = Omit<TMiddlewareContext, 'namespace' | 'name' | 'request' | 'response'> & {
+  readonly namespace: TNamespaceName;
+  readonly name: TMessageName;
+  request: TDefinition['request'];
+  response?: TMiddlewareResponseOf<TDefinition>;
+};
+
+/**
+ * Onion-style middleware bound to a single message, see Bridge.useFor
+ */
+export type TMessageMiddleware<
+  TNamespaceName extends string,
+  TMessageName extends string,
+  TDefinition extends { request: unknown; response: unknown },
+> = (
+  ctx: TMessageMiddlewareContext<TNamespaceName, TMessageName, TDefinition>,
+  next: TMiddlewareNext
+) => Promise<void> | void;
+
+/**
+ * Hook object middleware bound to a single message, hooks must return the payload in the same shape.
+ * For streams after hooks receive chunks.
+ */
+export type TMessageHooks<
+  TNamespaceName extends string,
+  TMessageName extends string,
+  TDefinition extends { request: unknown; response: unknown },
+> = {
+  onBeforeSend?(
+    namespace: TNamespaceName,
+    messageName: TMessageName,
+    request: TDefinition['request'],
+    headers: THeaders
+  ): TDefinition['request'] | Promise<TDefinition['request']>;
+  onAfterReceive?(
+    namespace: TNamespaceName,
+    messageName: TMessageName,
+    response: TDefinition['response'],
+    headers: Readonly<THeaders>
+  ): TDefinition['response'] | Promise<TDefinition['response']>;
+  onBeforeHandle?(
+    namespace: TNamespaceName,
+    messageName: TMessageName,
+    request: TDefinition['request'],
+    headers: THeaders
+  ): TDefinition['request'] | Promise<TDefinition['request']>;
+  onAfterHandle?(
+    namespace: TNamespaceName,
+    messageName: TMessageName,
+    response: TDefinition['response'],
+    headers: THeaders
+  ): TDefinition['response'] | Promise<TDefinition['response']>;
+  onError?(namespace: TNamespaceName, messageName: TMessageName, error: Error): void;
+};
+
+/**
+ * Limits middleware to some messages, all set conditions must match
+ */
+export type TMiddlewareScope = {
+  pipeline?: TMiddlewarePipeline;
+  namespaces?: Array<string>;
+  /** Message identifiers from NamespaceMessages.message */
+  messages?: Array<TMessageBase<string, string>>;
+};
+
+export function isInScope(
+  scope: TMiddlewareScope | undefined,
+  target: { pipeline?: TMiddlewarePipeline; namespace: string; name: string }
+): boolean {
+  if (!scope) {
+    return true;
+  }
+
+  const { pipeline, namespaces, messages } = scope;
+  return (
+    (!pipeline || !target.pipeline || pipeline === target.pipeline) &&
+    (!namespaces || namespaces.indexOf(target.namespace) !== -1) &&
+    (!messages ||
+      messages.some(
+        (message) => message.namespace === target.namespace && message.name === target.name
+      ))
+  );
+}
+
+/**
+ * Run middleware in order around the innermost step, always asynchronously
+ */
+export function runMiddleware(
+  middleware: ReadonlyArray<TMiddleware>,
+  ctx: TMiddlewareContext,
+  innermost: () => Promise<void>
+): Promise<void> {
+  const run = (index: number): Promise<void> =>
+    index === middleware.length
+      ? innermost()
+      : Promise.resolve().then(() => middleware[index](ctx, () => run(index + 1)));
+
+  return Promise.resolve().then(() => run(0));
+}
+
+/**
+ * Adapter running hook object middleware in the pipeline.
+ * Stream chunks pass the after hook one by one (without headers), events have no after hook.
+ */
+export function createHookMiddleware(hooks: TBridgeMiddleware): TMiddleware {
+  const applyBeforeHook = (ctx: TMiddlewareContext): unknown =>
+    ctx.pipeline === 'dispatch'
+      ? hooks.onBeforeSend?.(ctx.namespace, ctx.name, ctx.request, ctx.headers)
+      : hooks.onBeforeHandle?.(ctx.namespace, ctx.name, ctx.request, ctx.headers);
+  const applyAfterHook = (
+    ctx: TMiddlewareContext,
+    response: unknown,
+    headers: THeaders
+  ): unknown =>
+    ctx.pipeline === 'dispatch'
+      ? hooks.onAfterReceive?.(ctx.namespace, ctx.name, response, headers)
+      : hooks.onAfterHandle?.(ctx.namespace, ctx.name, response, headers);
+  const hasBeforeHook = (ctx: TMiddlewareContext): boolean =>
+    ctx.pipeline === 'dispatch'
+      ? typeof hooks.onBeforeSend === 'function'
+      : typeof hooks.onBeforeHandle === 'function';
+  const hasAfterHook = (ctx: TMiddlewareContext): boolean =>
+    ctx.kind !== 'event' &&
+    (ctx.pipeline === 'dispatch'
+      ? typeof hooks.onAfterReceive === 'function'
+      : typeof hooks.onAfterHandle === 'function');
+
+  return async (ctx, next) => {
+    if (hasBeforeHook(ctx)) {
+      ctx.request = await applyBeforeHook(ctx);
+    }
+
+    await next();
+
+    if (!hasAfterHook(ctx)) {
+      return;
+    }
+
+    ctx.response =
+      ctx.kind === 'stream'
+        ? mapAsyncIterable(ctx.response as AsyncIterable<unknown>, (chunk) =>
+            applyAfterHook(ctx, chunk, {})
+          )
+        : await applyAfterHook(ctx, ctx.response, ctx.responseHeaders);
+  };
+}
+
+export function createMiddlewareContext(
+  fields: Pick<
+    TMiddlewareContext,
+    'pipeline' | 'id' | 'namespace' | 'name' | 'kind' | 'request' | 'headers'
+  > &
+    Partial<Pick<TMiddlewareContext, 'responseHeaders'>>
+): TMiddlewareContext {
+  return { responseHeaders: {}, ...fields, state: {} };
+}
@@ -0,0 +1,33 @@
+/**
+ * Version of the frame format spoken by this package.
+ *
+ * Compatibility policy:
+ * - New optional fields and new frame types are added without a version bump.
+ *   Receivers must ignore frame types and fields they don't know.
+ * - Changing meaning or shape of existing fields and frames, or requiring a new frame, bumps the version.
+ * - A bridge keeps supporting previous versions for at least one major release of the package,
+ *   so independently deployed sides negotiate a common version during the handshake.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Versions this bridge can speak, highest common version is chosen during the handshake
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: ReadonlyArray<number> = [PROTOCOL_VERSION];
+
+/**
+ * Version stamped on hello and ack frames: the lowest supported one, so peers speaking only older versions
+ * still read the handshake and negotiate
+ */
+export const HANDSHAKE_PROTOCOL_VERSION = Math.min(...SUPPORTED_PROTOCOL_VERSIONS);
+
+/**
+ * Highest version supported by both sides, null when there is none
+ */
+export function negotiateProtocol(
+  local: ReadonlyArray<number>,
+  remote: ReadonlyArray<number>
+): number | null {
+  const common = local.filter((version) => remote.indexOf(version) !== -1);
+  return common.length > 0 ? Math.max(...common) : null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Reason of a failed dispatch attempt
+ * - 'timeout' - no answer was received in time
+ * - 'remote' - remote side answered with an error
+ */
+export type TRetryReason = 'timeout' | 'remote';
+
+/**
+ * Information about a failed attempt passed to retry policies
+ */
+export type TRetryContext = {
+  namespace: string;
+  messageName: string;
+  /** Number of the failed attempt, starting from 1 */
+  attempt: number;
+  reason: TRetryReason;
+  error: Error;
+};
+
+/**
+ * Which failures should be retried
+ * - 'timeout' - only timed out attempts (default, safe for non-idempotent handlers)
+ * - 'remote' - only errors returned by the remote handler
+ * - 'any' - both timeouts and remote errors
+ * - predicate - custom decision
+ */
+export type TRetryOn = TRetryReason | 'any' | ((context: TRetryContext) => boolean);
+
+/**
+ * Retry policy for Bridge.dispatch
+ */
+export type TRetryPolicy = {
+  /** Maximum number of retries after the first attempt */
+  retries: number;
+  /** Delay in ms before the next attempt */
+  delay(context: TRetryContext): number;
+  /** Decides whether the failed attempt should be retried */
+  shouldRetry(context: TRetryContext): boolean;
+};
+
+export type TFixedRetryOptions = {
+  retries: number;
+  /** @default 0 */
+  delay?: number;
+  /** @default 'timeout' */
+  retryOn?: TRetryOn;
+};
+
+export type TExponentialRetryOptions = {
+  retries: number;
+  /** Delay before the first retry in ms. @default 100 */
+  initialDelay?: number;
+  /** Upper bound for a single delay in ms. @default 10000 */
+  maxDelay?: number;
+  /** Multiplier applied on each attempt. @default 2 */
+  factor?: number;
+  /** Randomize delays to avoid synchronized retries. @default true */
+  jitter?: boolean;
+  /** @default 'timeout' */
+  retryOn?: TRetryOn;
+};
+
+const DEFAULT_INITIAL_DELAY = 100;
+const DEFAULT_MAX_DELAY = 10000;
+const DEFAULT_FACTOR = 2;
+
+function createRetryPredicate(retryOn: TRetryOn = 'timeout'): (context: TRetryContext) => boolean {
+  if (typeof retryOn === 'function') {
+    return retryOn;
+  }
+  return (context) => retryOn === 'any' || retryOn === context.reason;
+}
+
+/**
+ * Retry policy with a constant delay between attempts
+ */
+export function fixedRetryPolicy(options: TFixedRetryOptions): TRetryPolicy {
+  const delay = options.delay ?? 0;
+  return {
+    retries: options.retries,
+    delay: () => delay,
+    shouldRetry: createRetryPredicate(options.retryOn),
+  };
+}
+
+/**
+ * Retry policy with exponentially growing delays and optional jitter
+ */
+export function exponentialRetryPolicy(options: TExponentialRetryOptions): TRetryPolicy {
+  const initialDelay = options.initialDelay ?? DEFAULT_INITIAL_DELAY;
+  const maxDelay = options.maxDelay ?? DEFAULT_MAX_DELAY;
+  const factor = options.factor ?? DEFAULT_FACTOR;
+  const hasJitter = options.jitter ?? true;
+
+  return {
+    retries: options.retries,
+    delay: ({ attempt }): number => {
+      const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+      // "Equal jitter": keep half of the delay, randomize the other half
+      return hasJitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+    },
+    shouldRetry: createRetryPredicate(options.retryOn),
+  };
+}
+
+/**
+ * Normalize retry configuration: a number means "retry timeouts N times without delay"
+ */
+export function resolveRetryPolicy(retry: number | TRetryPolicy): TRetryPolicy {
+  return typeof retry === 'number' ? fixedRetryPolicy({ retries: retry }) : retry;
+}
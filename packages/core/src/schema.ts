@@ -0,0 +1,80 @@
+/**
+ * Validation issue reported by a schema
+ */
+export type TValidationIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * Validation result, `value` is the parsed value and may differ from the input (coercion, defaults)
+ */
+export type TValidationResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<TValidationIssue> };
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev), implemented by Zod, Valibot, ArkType and others.
+ * Declared here to avoid a dependency on the spec package.
+ */
+export type TStandardSchema<TInput = unknown, TOutput = TInput> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    validate(value: unknown): TValidationResult<TOutput> | Promise<TValidationResult<TOutput>>;
+    readonly types?: { readonly input: TInput; readonly output: TOutput } | undefined;
+  };
+};
+
+/**
+ * Hand-written type guard
+ */
+export type TTypeGuard<T> = (value: unknown) => value is T;
+
+/**
+ * Minimal adapter for validation libraries without Standard Schema support
+ */
+export type TSchemaAdapter<T> = {
+  validate(value: unknown): TValidationResult<T> | Promise<TValidationResult<T>>;
+};
+
+/**
+ * Anything the bridge can validate payloads with
+ */
+export type TSchema<T> = TStandardSchema<unknown, T> | TTypeGuard<T> | TSchemaAdapter<T>;
+
+/**
+ * Type produced by a schema
+ */
+export type TSchemaOutput<TSchemaType> =
+  TSchemaType extends TStandardSchema<unknown, infer TOutput>
+    ? TOutput
+    : TSchemaType extends TTypeGuard<infer T>
+      ? T
+      : TSchemaType extends TSchemaAdapter<infer T>
+        ? T
+        : never;
+
+const GUARD_FAILED_MESSAGE = 'Value does not match type guard';
+
+function isStandardSchema<T>(schema: TSchema<T>): schema is TStandardSchema<unknown, T> {
+  return typeof schema === 'object' && '~standard' in schema;
+}
+
+/**
+ * Validate value with any supported schema kind
+ */
+export function validateSchema<T>(
+  schema: TSchema<T>,
+  value: unknown
+): Promise<TValidationResult<T>> {
+  if (typeof schema === 'function') {
+    return Promise.resolve(
+      schema(value) ? { value } : { issues: [{ message: GUARD_FAILED_MESSAGE }] }
+    );
+  }
+
+  return Promise.resolve(
+    isStandardSchema(schema) ? schema['~standard'].validate(value) : schema.validate(value)
+  );
+}
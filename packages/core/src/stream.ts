@@ -0,0 +1,133 @@
+type TWaiter<T> = {
+  resolve(result: IteratorResult<T>): void;
+  reject(error: Error): void;
+};
+
+/**
+ * Async iterable buffer for incoming stream chunks.
+ * Chunks are pushed by the bridge as frames arrive and pulled by the consumer with for await.
+ */
+export class StreamQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: Array<T> = [];
+  private waiters: Array<TWaiter<T>> = [];
+  private isDone = false;
+  private failure: Error | null = null;
+
+  /**
+   * @param onCancel - called once when the consumer stops iteration before the stream ended
+   */
+  constructor(private onCancel: () => void) {}
+
+  /**
+   * Check if the stream is finished (ended, failed or cancelled)
+   */
+  isClosed(): boolean {
+    return this.isDone || this.failure !== null;
+  }
+
+  push(chunk: T): void {
+    if (this.isClosed()) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: chunk, done: false });
+    } else {
+      this.buffer.push(chunk);
+    }
+  }
+
+  end(): void {
+    if (this.isClosed()) {
+      return;
+    }
+
+    this.isDone = true;
+    this.waiters.splice(0).forEach((waiter) => {
+      waiter.resolve({ value: undefined, done: true });
+    });
+  }
+
+  fail(error: Error): void {
+    if (this.isClosed()) {
+      return;
+    }
+
+    this.failure = error;
+    this.waiters.splice(0).forEach((waiter) => {
+      waiter.reject(error);
+    });
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    if (this.isDone) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise<IteratorResult<T>>((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Called by for await on break/return/throw in the loop body
+   */
+  return(): Promise<IteratorResult<T>> {
+    if (!this.isClosed()) {
+      this.end();
+      this.onCancel();
+    }
+
+    this.buffer.length = 0;
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
+
+/**
+ * Transform chunks one by one, stopping the result stops the source
+ */
+export async function* mapAsyncIterable<T, TResult>(
+  source: AsyncIterable<T>,
+  transform: (chunk: T) => TResult | Promise<TResult>
+): AsyncIterableIterator<TResult> {
+  for await (const chunk of source) {
+    yield await transform(chunk);
+  }
+}
+
+/**
+ * Iterable available synchronously for a source that is resolved later,
+ * iteration fails with the rejection reason of the source
+ */
+export function deferAsyncIterable<T>(source: Promise<AsyncIterable<T>>): AsyncIterableIterator<T> {
+  let iterator: Promise<AsyncIterator<T>> | undefined;
+  const getIterator = (): Promise<AsyncIterator<T>> => {
+    iterator = iterator ?? source.then((iterable) => iterable[Symbol.asyncIterator]());
+    return iterator;
+  };
+
+  return {
+    next: () => getIterator().then((sourceIterator) => sourceIterator.next()),
+    return: () =>
+      getIterator().then(
+        (sourceIterator): Promise<IteratorResult<T>> | IteratorResult<T> =>
+          sourceIterator.return?.() ?? { value: undefined, done: true }
+      ),
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+      return this;
+    },
+  };
+}
@@ -1,6 +1,19 @@
+import type { TNamespaceContract } from './contract';
+
 export type TBridgeSide = 'main' | 'worker';
 export type TMessageDirection = 'mainToWorker' | 'workerToMain' | 'bidirectional';
 export type TMessageObjectType = 'forListen' | 'forSend';
+/**
+ * - 'request' - request/response message, sent with bridge.dispatch()
+ * - 'event' - fire-and-forget notification, sent with bridge.emit()
+ * - 'stream' - request answered with many chunks, bridge.dispatch() returns AsyncIterable
+ */
+export type TMessageKind = 'request' | 'event' | 'stream';
+
+/**
+ * Metadata sent alongside the payload (trace ids, locale, tenant)
+ */
+export type THeaders = { [name: string]: string };
 
 /**
  * Internal message type for communication between bridge actors
@@ -10,10 +23,33 @@ export type TInternalMessage = {
   namespace: string;
   name: string;
   sender: TBridgeSide;
+  /** Protocol version of the frame, see PROTOCOL_VERSION. Omitted by bridges before versioning (version 1). */
+  protocol?: number;
+  /** Omitted when empty */
+  headers?: THeaders;
 } & (
-  | { type: 'request'; data: unknown }
+  | {
+      type: 'request';
+      data: unknown;
+      /** Stable across retries of the same dispatch, used to deduplicate deliveries */
+      idempotencyKey?: string;
+      /** Request opens a stream, answered with 'chunk' frames and a final 'end' frame */
+      stream?: boolean;
+      /** Time in ms the caller waits for the answer, omitted without timeout */
+      timeout?: number;
+    }
   | { type: 'response'; data: unknown }
+  | { type: 'event'; data: unknown }
+  | { type: 'chunk'; data: unknown }
+  | { type: 'end' }
+  // Sent by the requesting side when it is not interested in the answer anymore
+  | { type: 'cancel' }
   | { type: 'error'; error: unknown }
+  // Handshake: sent by a bridge once it listens to the channel, answered by the peer with 'ack'.
+  // Both frames list supported protocol versions, each side picks the highest common one,
+  // and the namespace contract to detect sides built with different namespace definitions.
+  | { type: 'hello'; protocols: Array<number>; contract?: TNamespaceContract }
+  | { type: 'ack'; protocols: Array<number>; contract?: TNamespaceContract }
 );
 
 /**
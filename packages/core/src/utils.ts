@@ -1,6 +1,55 @@
+import type { TBridgeSide, TMessageDirection } from './types';
+
 /**
  * Generate unique message ID
  */
 export function generateMessageId(namespace: string): string {
   return `${namespace}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
+
+/**
+ * Check if message with given direction can be sent from the bridge side
+ */
+export function canSendFromSide(direction: TMessageDirection, side: TBridgeSide): boolean {
+  return (
+    direction === 'bidirectional' ||
+    (side === 'main' && direction === 'mainToWorker') ||
+    (side === 'worker' && direction === 'workerToMain')
+  );
+}
+
+/**
+ * Create error recognizable as an abort (error.name === 'AbortError'), same as fetch does
+ */
+export function createAbortError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+export type TDeferred<T> = {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(error: Error): void;
+};
+
+/**
+ * Promise with resolve/reject exposed, for values that settle outside of the creating scope
+ */
+export function createDeferred<T>(): TDeferred<T> {
+  const deferred = {} as TDeferred<T>;
+  deferred.promise = new Promise<T>((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+}
+
+/**
+ * Report the error outside of the current call stack, the way event listener errors are reported
+ */
+export function rethrowAsync(error: unknown): void {
+  setTimeout(() => {
+    throw error;
+  }, 0);
+}
@@ -1,74 +1,11 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { Bridge } from './../src/bridge';
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import { Bridge, type TBridgeConfig, type THandlerContext } from './../src/bridge';
 import { NamespaceBuilder } from './../src/builder';
-import type { IChannel } from './../src/channel';
-import { TBridgeSide, TInternalMessage } from './../src/types';
-
-// Test Channel implementation using simple pub-sub pattern
-class TestChannel<TSide extends TBridgeSide> implements IChannel<TSide> {
-  private handlers: Array<(message: TInternalMessage) => void> = [];
-  private ready = false;
-  public readonly side: TSide;
-
-  constructor(
-    private config: { side: TSide },
-    private peerChannel?: TestChannel<TSide extends 'main' ? 'worker' : 'main'>
-  ) {
-    this.side = config.side;
-  }
-
-  initialize(): void {
-    this.ready = true;
-  }
-
-  send(message: TInternalMessage): void {
-    if (!this.ready) {
-      throw new Error('Channel is not ready');
-    }
-
-    // Send to peer channel if available
-    if (this.peerChannel) {
-      // Simulate async delivery
-      queueMicrotask(() => {
-        this.peerChannel!.deliverMessage(message);
-      });
-    }
-  }
-
-  onMessage(handler: (message: TInternalMessage) => void): void {
-    this.handlers.push(handler);
-  }
-
-  isReady(): boolean {
-    return this.ready;
-  }
-
-  getSide(): TSide {
-    return this.config.side;
-  }
-
-  destroy(): void {
-    this.ready = false;
-    this.handlers = [];
-  }
-
-  // Internal method to deliver message to handlers
-  private deliverMessage(message: TInternalMessage): void {
-    this.handlers.forEach((handler) => handler(message));
-  }
-
-  // Helper to connect two channels for bidirectional communication
-  static createPair(): [TestChannel<'main'>, TestChannel<'worker'>] {
-    const mainChannel = new TestChannel<'main'>({ side: 'main' });
-    const workerChannel = new TestChannel<'worker'>({ side: 'worker' });
-
-    // Connect channels to each other
-    mainChannel.peerChannel = workerChannel;
-    workerChannel.peerChannel = mainChannel;
-
-    return [mainChannel, workerChannel];
-  }
-}
+import { BridgeError, BridgeRemoteError, BridgeValidationError } from './../src/errors';
+import { exponentialRetryPolicy, fixedRetryPolicy } from './../src/retry';
+import type { TStandardSchema } from './../src/schema';
+import type { THeaders } from './../src/types';
+import { TestChannel } from './helpers/test-channel';
 
 // Test namespace
 type TTestRequest = { value: number };
@@ -128,9 +65,11 @@ describe('Bridge security mechanisms', () => {
       }
     );
 
-    await expect(bridgeWithShortTimeout.dispatch(message)).rejects.toThrow(
-      Bridge.ERRORS.TIMEOUT('ping')
-    );
+    await expect(bridgeWithShortTimeout.dispatch(message)).rejects.toMatchObject({
+      name: 'BridgeError',
+      code: 'TIMEOUT',
+      message: Bridge.ERRORS.TIMEOUT('ping'),
+    });
   });
 
   it('registers message handler', () => {
@@ -569,3 +508,1035 @@ describe('Middleware', () => {
     ]);
   });
 });
+
+describe('Retries', () => {
+  let bridgeMain: Bridge<typeof testNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof testNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(testNamespace, channelMain, { timeout: 50 });
+    bridgeWorker = new Bridge(testNamespace, channelWorker, { timeout: 50, retries: 2 });
+  });
+
+  it('retries timed out request and deduplicates repeated deliveries', async () => {
+    const handler = vi.fn(async (payload: TTestRequest) => {
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      return { result: payload.value };
+    });
+    bridgeMain.listen(testNamespace.message.calculate, handler);
+
+    const response = await bridgeWorker.dispatch(testNamespace.send.calculate({ value: 1 }));
+
+    expect(response).toEqual({ result: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with timeout when retries are exhausted', async () => {
+    bridgeWorker.listen(testNamespace.message.ping, () => new Promise<string>(() => undefined));
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined), {
+      retries: fixedRetryPolicy({ retries: 1, delay: 10 }),
+    });
+
+    await expect(response).rejects.toThrow(Bridge.ERRORS.TIMEOUT('ping'));
+  });
+
+  it('does not retry remote errors by default', async () => {
+    const handler = vi.fn(async (): Promise<TTestResponse> => {
+      throw new Error('Handler error');
+    });
+    bridgeMain.listen(testNamespace.message.calculate, handler);
+
+    await expect(bridgeWorker.dispatch(testNamespace.send.calculate({ value: 1 }))).rejects.toThrow(
+      'Handler error'
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries remote errors when policy allows it', async () => {
+    let calls = 0;
+    bridgeMain.listen(testNamespace.message.calculate, async (payload) => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('Temporary error');
+      }
+      return { result: payload.value };
+    });
+
+    const response = await bridgeWorker.dispatch(testNamespace.send.calculate({ value: 3 }), {
+      retries: exponentialRetryPolicy({ retries: 2, initialDelay: 5, retryOn: 'remote' }),
+    });
+
+    expect(response).toEqual({ result: 3 });
+    expect(calls).toBe(2);
+  });
+
+  it('calls error middleware once after the last attempt', async () => {
+    const errorSpy = vi.fn();
+    bridgeMain.use({ onError: errorSpy });
+    bridgeWorker.listen(testNamespace.message.ping, () => new Promise<string>(() => undefined));
+
+    await expect(
+      bridgeMain.dispatch(testNamespace.send.ping(undefined), { retries: 2 })
+    ).rejects.toThrow(Bridge.ERRORS.TIMEOUT('ping'));
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Events', () => {
+  const eventsNamespace = new NamespaceBuilder('events')
+    .workerToMainEvent<{ level: string; message: string }>()('log')
+    .bidirectionalEvent<string>()('notify')
+    .mainToWorkerMessage<void, string>()('ping')
+    .build();
+
+  let bridgeMain: Bridge<typeof eventsNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof eventsNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(eventsNamespace, channelMain);
+    bridgeWorker = new Bridge(eventsNamespace, channelWorker);
+  });
+
+  it('delivers events to listeners', async () => {
+    const handler = vi.fn();
+    bridgeMain.listen(eventsNamespace.message.log, handler);
+
+    await bridgeWorker.emit(eventsNamespace.send.log({ level: 'info', message: 'hello' }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(handler).toHaveBeenCalledWith({ level: 'info', message: 'hello' }, expect.anything());
+  });
+
+  it('applies send and handle middleware to events', async () => {
+    const handler = vi.fn();
+    bridgeWorker.use({ onBeforeSend: (namespace, messageName, request) => `${String(request)}!` });
+    bridgeMain.use({ onBeforeHandle: (namespace, messageName, request) => `${String(request)}?` });
+    bridgeMain.listen(eventsNamespace.message.notify, handler);
+
+    await bridgeWorker.emit(eventsNamespace.send.notify('hey'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(handler).toHaveBeenCalledWith('hey!?', expect.anything());
+  });
+
+  it('never answers events and does not allocate pending requests', async () => {
+    const sendSpy = vi.spyOn(TestChannel.prototype, 'send');
+
+    await bridgeWorker.emit(eventsNamespace.send.notify('no listener'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Only the event itself, no error frame for the missing handler
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+    sendSpy.mockRestore();
+  });
+
+  it('reports handler errors to error middleware', async () => {
+    const errorSpy = vi.fn();
+    bridgeMain.use({ onError: errorSpy });
+    bridgeMain.listen(eventsNamespace.message.notify, () => {
+      throw new Error('Handler error');
+    });
+
+    await bridgeWorker.emit(eventsNamespace.send.notify('boom'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(errorSpy).toHaveBeenCalledWith('events', 'notify', expect.any(Error));
+  });
+
+  it('rejects events passed to dispatch and requests passed to emit', async () => {
+    // @ts-expect-error - events can't be dispatched
+    await expect(bridgeWorker.dispatch(eventsNamespace.send.notify('event'))).rejects.toThrow(
+      Bridge.ERRORS.INVALID_MESSAGE_KIND('notify', 'event', '.emit()')
+    );
+
+    // @ts-expect-error - requests can't be emitted
+    await expect(bridgeMain.emit(eventsNamespace.send.ping(undefined))).rejects.toThrow(
+      Bridge.ERRORS.INVALID_MESSAGE_KIND('ping', 'request', '.dispatch()')
+    );
+  });
+
+  it('validates event direction', async () => {
+    // Direction is validated at runtime
+    await expect(
+      bridgeMain.emit(eventsNamespace.send.log({ level: 'info', message: '' }))
+    ).rejects.toThrow(Bridge.ERRORS.INVALID_DIRECTION('log', 'workerToMain', 'main'));
+  });
+});
+
+describe('Streams', () => {
+  const streamNamespace = new NamespaceBuilder('streams')
+    .mainToWorkerStream<{ count: number }, number>()('count')
+    .bidirectionalStream<string, string>()('search')
+    .build();
+
+  let bridgeMain: Bridge<typeof streamNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof streamNamespace, TestChannel<'worker'>>;
+
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<Array<T>> => {
+    const chunks: Array<T> = [];
+    for await (const chunk of iterable) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(streamNamespace, channelMain, { timeout: 50 });
+    bridgeWorker = new Bridge(streamNamespace, channelWorker);
+  });
+
+  it('streams chunks produced by async generator', async () => {
+    bridgeWorker.listen(streamNamespace.message.count, async function* ({ count }) {
+      for (let i = 1; i <= count; i++) {
+        yield i;
+      }
+    });
+
+    const stream = bridgeMain.dispatch(streamNamespace.send.count({ count: 3 }));
+    expectTypeOf(stream).toEqualTypeOf<AsyncIterable<number>>();
+
+    expect(await collect(stream)).toEqual([1, 2, 3]);
+  });
+
+  it('applies receive and handle middleware to every chunk', async () => {
+    bridgeWorker.use({ onAfterHandle: (namespace, messageName, chunk) => `${String(chunk)}!` });
+    bridgeMain.use({ onAfterReceive: (namespace, messageName, chunk) => `${String(chunk)}?` });
+    bridgeWorker.listen(streamNamespace.message.search, async function* (query) {
+      yield `${query}-1`;
+      yield `${query}-2`;
+    });
+
+    const chunks = await collect(bridgeMain.dispatch(streamNamespace.send.search('q')));
+
+    expect(chunks).toEqual(['q-1!?', 'q-2!?']);
+  });
+
+  it('propagates consumer break to the producer', async () => {
+    let isFinalized = false;
+    bridgeWorker.listen(streamNamespace.message.count, async function* () {
+      try {
+        for (let i = 1; ; i++) {
+          yield i;
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      } finally {
+        isFinalized = true;
+      }
+    });
+
+    const chunks: Array<number> = [];
+    for await (const chunk of bridgeMain.dispatch(streamNamespace.send.count({ count: 0 }))) {
+      chunks.push(chunk);
+      if (chunks.length === 2) {
+        break;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(chunks).toEqual([1, 2]);
+    expect(isFinalized).toBe(true);
+  });
+
+  it('reports errors thrown while stopping a cancelled producer', async () => {
+    const reportError = vi.fn();
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const main = new Bridge(streamNamespace, channelMain);
+    const worker = new Bridge(streamNamespace, channelWorker, { reportError });
+    const onUnhandled = vi.fn();
+    process.on('unhandledRejection', onUnhandled);
+    worker.listen(streamNamespace.message.count, async function* () {
+      try {
+        for (let i = 1; ; i++) {
+          yield i;
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      } finally {
+        throw new Error('Cleanup failed');
+      }
+    });
+
+    for await (const chunk of main.dispatch(streamNamespace.send.count({ count: 0 }))) {
+      if (chunk === 2) {
+        break;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    process.off('unhandledRejection', onUnhandled);
+
+    expect(onUnhandled).not.toHaveBeenCalled();
+    expect(reportError).toHaveBeenCalledWith(new Error('Cleanup failed'));
+  });
+
+  it('applies timeout between chunks instead of the whole stream', async () => {
+    bridgeWorker.listen(streamNamespace.message.count, async function* ({ count }) {
+      for (let i = 1; i <= count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        yield i;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    });
+
+    const chunks: Array<number> = [];
+    const consume = async (): Promise<void> => {
+      for await (const chunk of bridgeMain.dispatch(streamNamespace.send.count({ count: 3 }))) {
+        chunks.push(chunk);
+      }
+    };
+
+    // 3 chunks take longer than timeout in total, but the silence after them fails the stream
+    await expect(consume()).rejects.toThrow(Bridge.ERRORS.TIMEOUT('count'));
+    expect(chunks).toEqual([1, 2, 3]);
+  });
+
+  it('rejects iteration when handler throws', async () => {
+    bridgeWorker.listen(streamNamespace.message.search, async function* () {
+      throw new Error('Search failed');
+    });
+
+    await expect(collect(bridgeMain.dispatch(streamNamespace.send.search('q')))).rejects.toThrow(
+      'Search failed'
+    );
+  });
+
+  it('does not leave unhandled rejections of streams that are never read', async () => {
+    const onUnhandled = vi.fn();
+    process.on('unhandledRejection', onUnhandled);
+    bridgeMain.use((ctx) => {
+      if (ctx.pipeline === 'dispatch') {
+        throw new Error('Blocked');
+      }
+    });
+
+    const stream = bridgeMain.dispatch(streamNamespace.send.search('q'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    process.off('unhandledRejection', onUnhandled);
+
+    expect(onUnhandled).not.toHaveBeenCalled();
+    await expect(collect(stream)).rejects.toThrow('Blocked');
+  });
+
+  it('rejects iteration when there is no handler', async () => {
+    await expect(collect(bridgeMain.dispatch(streamNamespace.send.search('q')))).rejects.toThrow(
+      Bridge.ERRORS.NO_HANDLER('search')
+    );
+  });
+
+  it('fails open streams on destroy', async () => {
+    bridgeWorker.listen(streamNamespace.message.search, async function* () {
+      yield 'first';
+      await new Promise(() => undefined);
+    });
+
+    const iterator = bridgeMain.dispatch(streamNamespace.send.search('q'))[Symbol.asyncIterator]();
+    expect(await iterator.next()).toEqual({ value: 'first', done: false });
+
+    bridgeMain.destroy();
+    await expect(iterator.next()).rejects.toThrow(Bridge.ERRORS.BRIDGE_DESTROYED);
+  });
+});
+
+describe('Cancellation', () => {
+  let bridgeMain: Bridge<typeof testNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof testNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(testNamespace, channelMain, { timeout: 200 });
+    bridgeWorker = new Bridge(testNamespace, channelWorker, { timeout: 200 });
+  });
+
+  it('rejects immediately when signal is already aborted', async () => {
+    const handler = vi.fn(() => 'pong');
+    bridgeWorker.listen(testNamespace.message.ping, handler);
+    const controller = new AbortController();
+    controller.abort();
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined), {
+      signal: controller.signal,
+    });
+
+    await expect(response).rejects.toMatchObject({
+      name: 'AbortError',
+      message: Bridge.ERRORS.ABORTED('ping'),
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects pending request on abort and aborts the remote handler signal', async () => {
+    let handlerSignal: AbortSignal | undefined;
+    bridgeWorker.listen(testNamespace.message.ping, (payload, { signal }) => {
+      handlerSignal = signal;
+      return new Promise<string>(() => undefined);
+    });
+    const controller = new AbortController();
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined), {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(handlerSignal?.aborted).toBe(false);
+
+    controller.abort();
+
+    await expect(response).rejects.toThrow(Bridge.ERRORS.ABORTED('ping'));
+    expect(bridgeMain['pendingRequests'].size).toBe(0);
+    expect(handlerSignal?.aborted).toBe(true);
+  });
+
+  it('does not retry aborted requests', async () => {
+    const handler = vi.fn(() => new Promise<string>(() => undefined));
+    bridgeWorker.listen(testNamespace.message.ping, handler);
+    const controller = new AbortController();
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined), {
+      signal: controller.signal,
+      retries: 3,
+    });
+    setTimeout(() => {
+      controller.abort();
+    }, 10);
+
+    await expect(response).rejects.toThrow(Bridge.ERRORS.ABORTED('ping'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts handler signals on destroy', async () => {
+    let handlerSignal: AbortSignal | undefined;
+    bridgeWorker.listen(testNamespace.message.ping, (payload, { signal }) => {
+      handlerSignal = signal;
+      return new Promise<string>(() => undefined);
+    });
+
+    void bridgeMain.dispatch(testNamespace.send.ping(undefined)).catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    bridgeWorker.destroy();
+
+    expect(handlerSignal?.aborted).toBe(true);
+  });
+
+  it('fails stream and stops the producer on abort', async () => {
+    const streamNamespace = new NamespaceBuilder('cancel')
+      .mainToWorkerStream<void, number>()('ticks')
+      .build();
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const streamMain = new Bridge(streamNamespace, channelMain);
+    const streamWorker = new Bridge(streamNamespace, channelWorker);
+
+    let producerSignal: AbortSignal | undefined;
+    streamWorker.listen(streamNamespace.message.ticks, async function* (payload, { signal }) {
+      producerSignal = signal;
+      for (let i = 1; ; i++) {
+        yield i;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    });
+    const controller = new AbortController();
+
+    const chunks: Array<number> = [];
+    const consume = async (): Promise<void> => {
+      const stream = streamMain.dispatch(streamNamespace.send.ticks(undefined), {
+        signal: controller.signal,
+      });
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        if (chunks.length === 2) {
+          controller.abort();
+        }
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({ name: 'AbortError' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(producerSignal?.aborted).toBe(true);
+  });
+});
+
+describe('Timeouts', () => {
+  const timeoutNamespace = new NamespaceBuilder('timeouts')
+    .mainToWorkerMessage<void, string>({ timeout: 20 })('ping')
+    .mainToWorkerMessage<void, string>({ timeout: false })('exportReport')
+    .mainToWorkerMessage<void, string>()('plain')
+    .build();
+
+  let bridgeMain: Bridge<typeof timeoutNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof timeoutNamespace, TestChannel<'worker'>>;
+
+  const respondAfter = (ms: number) => (): Promise<string> =>
+    new Promise((resolve) => setTimeout(() => resolve('done'), ms));
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(timeoutNamespace, channelMain, { timeout: 60 });
+    bridgeWorker = new Bridge(timeoutNamespace, channelWorker);
+  });
+
+  it('uses bridge timeout for messages without their own timeout', async () => {
+    bridgeWorker.listen(timeoutNamespace.message.plain, respondAfter(40));
+
+    await expect(bridgeMain.dispatch(timeoutNamespace.send.plain(undefined))).resolves.toBe('done');
+  });
+
+  it('prefers message timeout over bridge timeout', async () => {
+    bridgeWorker.listen(timeoutNamespace.message.ping, respondAfter(40));
+
+    await expect(bridgeMain.dispatch(timeoutNamespace.send.ping(undefined))).rejects.toThrow(
+      Bridge.ERRORS.TIMEOUT('ping')
+    );
+  });
+
+  it('prefers call timeout over message timeout', async () => {
+    bridgeWorker.listen(timeoutNamespace.message.ping, respondAfter(40));
+    bridgeWorker.listen(timeoutNamespace.message.plain, respondAfter(40));
+
+    await expect(
+      bridgeMain.dispatch(timeoutNamespace.send.ping(undefined), { timeout: 100 })
+    ).resolves.toBe('done');
+    await expect(
+      bridgeMain.dispatch(timeoutNamespace.send.plain(undefined), { timeout: 10 })
+    ).rejects.toThrow(Bridge.ERRORS.TIMEOUT('plain'));
+  });
+
+  it('never times out messages declared without timeout', async () => {
+    bridgeWorker.listen(timeoutNamespace.message.exportReport, respondAfter(100));
+
+    await expect(bridgeMain.dispatch(timeoutNamespace.send.exportReport(undefined))).resolves.toBe(
+      'done'
+    );
+  });
+});
+
+describe('Handshake', () => {
+  const createBridges = (
+    config: TBridgeConfig = {}
+  ): {
+    bridgeMain: Bridge<typeof testNamespace, TestChannel<'main'>>;
+    connectWorker(): Bridge<typeof testNamespace, TestChannel<'worker'>>;
+  } => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    return {
+      bridgeMain: new Bridge(testNamespace, channelMain, config),
+      // Worker bridge created later, like an iframe that is still loading
+      connectWorker: () => new Bridge(testNamespace, channelWorker),
+    };
+  };
+
+  it('resolves ready() on both sides after handshake', async () => {
+    const { bridgeMain, connectWorker } = createBridges();
+    const bridgeWorker = connectWorker();
+
+    await expect(Promise.all([bridgeMain.ready(), bridgeWorker.ready()])).resolves.toBeDefined();
+  });
+
+  it('connects when the peer starts after the first hello was lost', async () => {
+    const { bridgeMain, connectWorker } = createBridges();
+    const isMainReady = vi.fn();
+    void bridgeMain.ready().then(isMainReady);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(isMainReady).not.toHaveBeenCalled();
+
+    const bridgeWorker = connectWorker();
+    await bridgeWorker.ready();
+    await bridgeMain.ready();
+    expect(isMainReady).toHaveBeenCalled();
+  });
+
+  it('queues dispatch until the peer is ready', async () => {
+    const { bridgeMain, connectWorker } = createBridges({ waitForReady: true, timeout: 200 });
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined));
+    setTimeout(() => {
+      connectWorker().listen(testNamespace.message.ping, () => 'pong');
+    }, 20);
+
+    await expect(response).resolves.toBe('pong');
+  });
+
+  it('counts waiting for a late peer towards the timeout', async () => {
+    const { bridgeMain, connectWorker } = createBridges({ waitForReady: true, timeout: 100 });
+    const deadlines: Array<number | undefined> = [];
+    const startedAt = Date.now();
+
+    const response = bridgeMain.dispatch(testNamespace.send.ping(undefined));
+    setTimeout(() => {
+      connectWorker().listen(testNamespace.message.ping, (payload, { deadline }) => {
+        deadlines.push(deadline);
+        return new Promise<string>(() => undefined);
+      });
+    }, 60);
+
+    await expect(response).rejects.toThrow(Bridge.ERRORS.TIMEOUT('ping'));
+    expect(Date.now() - startedAt).toBeLessThan(150);
+    expect(deadlines[0]).toBeLessThanOrEqual(startedAt + 110);
+  });
+
+  it('fails queued dispatch with timeout when the peer never connects', async () => {
+    const { bridgeMain } = createBridges({ timeout: 20 });
+
+    await expect(
+      bridgeMain.dispatch(testNamespace.send.ping(undefined), { waitForReady: true })
+    ).rejects.toThrow(Bridge.ERRORS.TIMEOUT('ping'));
+  });
+
+  it('rejects ready() when bridge is destroyed before handshake', async () => {
+    const { bridgeMain } = createBridges();
+    const ready = bridgeMain.ready();
+
+    bridgeMain.destroy();
+
+    await expect(ready).rejects.toThrow(Bridge.ERRORS.BRIDGE_DESTROYED);
+  });
+});
+
+describe('Remote errors', () => {
+  type TUserErrors =
+    | { code: 'NOT_FOUND'; data: { id: string } }
+    | { code: 'FORBIDDEN'; data: { role: string } };
+
+  const errorsNamespace = new NamespaceBuilder('errors')
+    .mainToWorkerMessage<{ id: string }, string, TUserErrors>()('getUser')
+    .mainToWorkerMessage<void, string>()('ping')
+    .build();
+
+  let bridgeMain: Bridge<typeof errorsNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof errorsNamespace, TestChannel<'worker'>>;
+
+  const catchError = async (promise: Promise<unknown>): Promise<unknown> =>
+    promise.then(
+      () => undefined,
+      (error: unknown) => error
+    );
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(errorsNamespace, channelMain, { timeout: 100 });
+    bridgeWorker = new Bridge(errorsNamespace, channelWorker);
+  });
+
+  it('rejects with BridgeRemoteError carrying code, data and remote stack', async () => {
+    bridgeWorker.listen(errorsNamespace.message.getUser, ({ id }) => {
+      throw new BridgeError('NOT_FOUND', `User ${id} not found`, { id });
+    });
+
+    const error = await catchError(bridgeMain.dispatch(errorsNamespace.send.getUser({ id: '7' })));
+
+    expect(error).toBeInstanceOf(BridgeRemoteError);
+    expect(error).toMatchObject({
+      name: 'BridgeError',
+      message: 'User 7 not found',
+      code: 'NOT_FOUND',
+      data: { id: '7' },
+    });
+    expect((error as BridgeRemoteError).remoteStack).toContain('User 7 not found');
+  });
+
+  it('narrows errors to declared shapes', async () => {
+    bridgeWorker.listen(errorsNamespace.message.getUser, () => {
+      throw new BridgeError('FORBIDDEN', 'Access denied', { role: 'guest' });
+    });
+
+    const error = await catchError(bridgeMain.dispatch(errorsNamespace.send.getUser({ id: '7' })));
+
+    expect(bridgeMain.isRemoteError(error, errorsNamespace.message.getUser)).toBe(true);
+    if (bridgeMain.isRemoteError(error, errorsNamespace.message.getUser)) {
+      expectTypeOf(error.code).toEqualTypeOf<'NOT_FOUND' | 'FORBIDDEN' | undefined>();
+      if (error.code === 'FORBIDDEN') {
+        expectTypeOf(error.data).toEqualTypeOf<{ role: string } | undefined>();
+        expect(error.data?.role).toBe('guest');
+      }
+    }
+    expect(bridgeMain.isRemoteError(new Error('local'), errorsNamespace.message.getUser)).toBe(
+      false
+    );
+  });
+
+  it('uses plain BridgeRemoteError for messages without declared errors', async () => {
+    const error = await catchError(bridgeMain.dispatch(errorsNamespace.send.ping(undefined)));
+
+    if (bridgeMain.isRemoteError(error, errorsNamespace.message.ping)) {
+      expectTypeOf(error).toEqualTypeOf<BridgeRemoteError>();
+    }
+    expect(error).toMatchObject({ code: 'NO_HANDLER', message: Bridge.ERRORS.NO_HANDLER('ping') });
+  });
+
+  it('serializes non-Error throws', async () => {
+    bridgeWorker.listen(errorsNamespace.message.ping, () => {
+      throw { reason: 'busy' };
+    });
+
+    const error = await catchError(bridgeMain.dispatch(errorsNamespace.send.ping(undefined)));
+
+    expect(error).toMatchObject({ message: '{"reason":"busy"}', data: { reason: 'busy' } });
+  });
+
+  it('uses custom error serializer', async () => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const main = new Bridge(errorsNamespace, channelMain);
+    const worker = new Bridge(errorsNamespace, channelWorker, {
+      serializeError: () => ({ name: 'Error', message: 'Internal error' }),
+    });
+    worker.listen(errorsNamespace.message.ping, () => {
+      throw new Error('Database password is wrong');
+    });
+
+    await expect(main.dispatch(errorsNamespace.send.ping(undefined))).rejects.toThrow(
+      'Internal error'
+    );
+  });
+});
+
+describe('Validation', () => {
+  type TUser = { id: string; name: string };
+
+  const isUser = (value: unknown): value is TUser =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TUser).id === 'string' &&
+    typeof (value as TUser).name === 'string';
+
+  const idSchema: TStandardSchema<unknown, { id: string }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof (value as { id?: unknown })?.id === 'string'
+          ? { value: value as { id: string } }
+          : { issues: [{ message: 'id must be a string', path: ['id'] }] },
+    },
+  };
+
+  const validationNamespace = new NamespaceBuilder('validation')
+    .mainToWorkerMessage({ schema: { request: idSchema, response: isUser } })('getUser')
+    .mainToWorkerStream({ schema: { response: isUser } })('users')
+    .mainToWorkerEvent({ schema: { request: idSchema } })('select')
+    .build();
+
+  let bridgeMain: Bridge<typeof validationNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof validationNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(validationNamespace, channelMain, { timeout: 100 });
+    bridgeWorker = new Bridge(validationNamespace, channelWorker);
+  });
+
+  it('infers message types from schemas', () => {
+    expectTypeOf(validationNamespace.send.getUser).parameter(0).toEqualTypeOf<{ id: string }>();
+    const getUser = () => bridgeMain.dispatch(validationNamespace.send.getUser({ id: '1' }));
+    expectTypeOf(getUser).returns.resolves.toEqualTypeOf<TUser>();
+  });
+
+  it('rejects invalid requests before the handler is called', async () => {
+    const handler = vi.fn((): TUser => ({ id: '1', name: 'Ann' }));
+    bridgeWorker.listen(validationNamespace.message.getUser, handler);
+
+    // Simulates outdated or compromised peer
+    const invalidMessage = validationNamespace.send.getUser({ id: 1 } as unknown as { id: string });
+
+    await expect(bridgeMain.dispatch(invalidMessage)).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      data: {
+        messageName: 'getUser',
+        target: 'request',
+        issues: [{ message: 'id must be a string', path: ['id'] }],
+      },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid responses with BridgeValidationError', async () => {
+    bridgeWorker.listen(
+      validationNamespace.message.getUser,
+      ({ id }) => ({ id }) as unknown as TUser
+    );
+
+    const response = bridgeMain.dispatch(validationNamespace.send.getUser({ id: '1' }));
+
+    await expect(response).rejects.toBeInstanceOf(BridgeValidationError);
+    await expect(response).rejects.toMatchObject({ data: { target: 'response' } });
+  });
+
+  it('reports invalid responses to error middleware', async () => {
+    const errorSpy = vi.fn();
+    bridgeMain.use({ onError: errorSpy });
+    bridgeWorker.listen(
+      validationNamespace.message.getUser,
+      ({ id }) => ({ id }) as unknown as TUser
+    );
+
+    await expect(
+      bridgeMain.dispatch(validationNamespace.send.getUser({ id: '1' }))
+    ).rejects.toBeInstanceOf(BridgeValidationError);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'validation',
+      'getUser',
+      expect.any(BridgeValidationError)
+    );
+  });
+
+  it('validates every stream chunk', async () => {
+    bridgeWorker.listen(validationNamespace.message.users, async function* () {
+      yield { id: '1', name: 'Ann' };
+      yield { id: '2' } as unknown as TUser;
+    });
+
+    const chunks: Array<TUser> = [];
+    const consume = async (): Promise<void> => {
+      for await (const user of bridgeMain.dispatch(validationNamespace.send.users(undefined))) {
+        chunks.push(user);
+      }
+    };
+
+    await expect(consume()).rejects.toBeInstanceOf(BridgeValidationError);
+    expect(chunks).toEqual([{ id: '1', name: 'Ann' }]);
+  });
+
+  it('drops invalid events and reports them to error middleware', async () => {
+    const handler = vi.fn();
+    const errorSpy = vi.fn();
+    bridgeWorker.use({ onError: errorSpy });
+    bridgeWorker.listen(validationNamespace.message.select, handler);
+
+    await bridgeMain.emit(validationNamespace.send.select({} as { id: string }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      'validation',
+      'select',
+      expect.any(BridgeValidationError)
+    );
+  });
+});
+
+describe('Handler context', () => {
+  const contextNamespace = new NamespaceBuilder('context')
+    .mainToWorkerMessage<void, string>()('ping')
+    .mainToWorkerStream<void, number>()('ticks')
+    .mainToWorkerEvent<string>()('notify')
+    .build();
+
+  let bridgeMain: Bridge<typeof contextNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof contextNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(contextNamespace, channelMain, { timeout: 1000 });
+    bridgeWorker = new Bridge(contextNamespace, channelWorker);
+  });
+
+  it('passes frame id, namespace, name, sender, headers and deadline to request handlers', async () => {
+    const sendSpy = vi.spyOn(TestChannel.prototype, 'send');
+    let context: THandlerContext<'context', 'ping'> | undefined;
+    bridgeWorker.listen(contextNamespace.message.ping, (payload, handlerContext) => {
+      context = handlerContext;
+      return 'pong';
+    });
+
+    const startedAt = Date.now();
+    await bridgeMain.dispatch(contextNamespace.send.ping(undefined), { timeout: 500 });
+
+    const requestFrame = sendSpy.mock.calls
+      .map(([frame]) => frame)
+      .find((frame) => frame.type === 'request');
+    expect(context).toMatchObject({
+      id: requestFrame?.id,
+      namespace: 'context',
+      name: 'ping',
+      sender: 'main',
+      headers: {},
+    });
+    expect(context?.deadline).toBeGreaterThanOrEqual(startedAt + 500);
+    expect(context?.deadline).toBeLessThanOrEqual(Date.now() + 500);
+    expect(context?.signal.aborted).toBe(false);
+    sendSpy.mockRestore();
+  });
+
+  it('has no deadline without timeout, for streams and for events', async () => {
+    const contexts: Array<THandlerContext> = [];
+    bridgeWorker.listen(contextNamespace.message.ping, (payload, context) => {
+      contexts.push(context);
+      return 'pong';
+    });
+    bridgeWorker.listen(contextNamespace.message.ticks, async function* (payload, context) {
+      contexts.push(context);
+      yield 1;
+    });
+    bridgeWorker.listen(contextNamespace.message.notify, (payload, context) => {
+      contexts.push(context);
+    });
+
+    await bridgeMain.dispatch(contextNamespace.send.ping(undefined), { timeout: false });
+    for await (const tick of bridgeMain.dispatch(contextNamespace.send.ticks(undefined))) {
+      expect(tick).toBe(1);
+    }
+    await bridgeMain.emit(contextNamespace.send.notify('hi'));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(contexts.map(({ name, deadline }) => ({ name, deadline }))).toEqual([
+      { name: 'ping', deadline: undefined },
+      { name: 'ticks', deadline: undefined },
+      { name: 'notify', deadline: undefined },
+    ]);
+  });
+
+  it('types the message name in the context', () => {
+    bridgeWorker.listen(contextNamespace.message.ticks, async function* (payload, context) {
+      expectTypeOf(context.name).toEqualTypeOf<'ticks'>();
+      expectTypeOf(context.namespace).toEqualTypeOf<'context'>();
+      yield 1;
+    });
+  });
+});
+
+describe('Headers', () => {
+  const headersNamespace = new NamespaceBuilder('headers')
+    .mainToWorkerMessage<void, string>()('ping')
+    .mainToWorkerStream<void, number>()('ticks')
+    .mainToWorkerEvent<string>()('notify')
+    .build();
+
+  let bridgeMain: Bridge<typeof headersNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof headersNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(headersNamespace, channelMain);
+    bridgeWorker = new Bridge(headersNamespace, channelWorker);
+  });
+
+  it('sends dispatch and middleware headers to the receiving side', async () => {
+    const beforeHandle = vi.fn((namespace: string, name: string, request: unknown) => request);
+    let handlerHeaders: Readonly<THeaders> | undefined;
+    bridgeMain.use({
+      onBeforeSend: (namespace, name, request, headers) => {
+        headers.traceId = 'trace-1';
+        return request;
+      },
+    });
+    bridgeWorker.use({ onBeforeHandle: beforeHandle });
+    bridgeWorker.listen(headersNamespace.message.ping, (payload, { headers }) => {
+      handlerHeaders = headers;
+      return 'pong';
+    });
+
+    await bridgeMain.dispatch(headersNamespace.send.ping(undefined), {
+      headers: { locale: 'de' },
+    });
+
+    const expectedHeaders = { locale: 'de', traceId: 'trace-1' };
+    expect(handlerHeaders).toEqual(expectedHeaders);
+    expect(beforeHandle).toHaveBeenCalledWith('headers', 'ping', undefined, expectedHeaders);
+  });
+
+  it('echoes request headers on responses with headers added by onAfterHandle', async () => {
+    const afterReceive = vi.fn((namespace: string, name: string, response: unknown) => response);
+    bridgeWorker.use({
+      onAfterHandle: (namespace, name, response, headers) => {
+        headers.server = 'worker';
+        return response;
+      },
+    });
+    bridgeMain.use({ onAfterReceive: afterReceive });
+    bridgeWorker.listen(headersNamespace.message.ping, () => 'pong');
+
+    await bridgeMain.dispatch(headersNamespace.send.ping(undefined), {
+      headers: { requestId: '42' },
+    });
+
+    expect(afterReceive).toHaveBeenCalledWith('headers', 'ping', 'pong', {
+      requestId: '42',
+      server: 'worker',
+    });
+  });
+
+  it('sends headers with events and stream requests', async () => {
+    const received: Array<Readonly<THeaders>> = [];
+    bridgeWorker.listen(headersNamespace.message.notify, (payload, { headers }) => {
+      received.push(headers);
+    });
+    bridgeWorker.listen(headersNamespace.message.ticks, async function* (payload, { headers }) {
+      received.push(headers);
+      yield 1;
+    });
+
+    await bridgeMain.emit(headersNamespace.send.notify('hi'), { headers: { tenant: 'a' } });
+    for await (const tick of bridgeMain.dispatch(headersNamespace.send.ticks(undefined), {
+      headers: { tenant: 'b' },
+    })) {
+      expect(tick).toBe(1);
+    }
+
+    expect(received).toEqual([{ tenant: 'a' }, { tenant: 'b' }]);
+  });
+
+  it('omits empty headers from frames', async () => {
+    const sendSpy = vi.spyOn(TestChannel.prototype, 'send');
+    bridgeWorker.listen(headersNamespace.message.ping, () => 'pong');
+
+    await bridgeMain.dispatch(headersNamespace.send.ping(undefined));
+
+    expect(sendSpy.mock.calls.every(([frame]) => !('headers' in frame))).toBe(true);
+    sendSpy.mockRestore();
+  });
+});
+
+describe('Frame listeners', () => {
+  let bridgeMain: Bridge<typeof testNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof testNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    bridgeMain = new Bridge(testNamespace, channelMain);
+    bridgeWorker = new Bridge(testNamespace, channelWorker);
+    bridgeWorker.listen(testNamespace.message.ping, () => 'pong');
+  });
+
+  it('passes sent and received frames until the listener is removed', async () => {
+    const frames: Array<string> = [];
+    await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+    const removeListener = bridgeMain.onFrame((frame, direction) => {
+      frames.push(`${direction}:${frame.type}:${frame.protocol}`);
+    });
+
+    await bridgeMain.dispatch(testNamespace.send.ping(undefined));
+    removeListener();
+    await bridgeMain.dispatch(testNamespace.send.ping(undefined));
+
+    expect(frames).toEqual(['sent:request:1', 'received:response:1']);
+  });
+
+  it('reports errors of listeners without stopping frames', async () => {
+    const reportError = vi.fn();
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const observedMain = new Bridge(testNamespace, channelMain, { reportError });
+    const observedWorker = new Bridge(testNamespace, channelWorker, { reportError });
+    observedWorker.listen(testNamespace.message.ping, () => 'pong');
+    const listenerError = new Error('Listener failed');
+    const throwingListener = (): void => {
+      throw listenerError;
+    };
+    observedMain.onFrame(throwingListener);
+    observedWorker.onFrame(throwingListener);
+
+    await Promise.all([observedMain.ready(), observedWorker.ready()]);
+    await expect(observedMain.dispatch(testNamespace.send.ping(undefined))).resolves.toBe('pong');
+
+    expect(reportError).toHaveBeenCalledWith(listenerError);
+  });
+});
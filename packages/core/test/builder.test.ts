@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { NamespaceBuilder } from './../src/builder';
+import { NamespaceBuilder, NamespaceMessages, mergeNamespaces } from './../src/builder';
 
 // Test types for complex object scenarios
 type TCreateUserRequest = {
@@ -73,6 +73,75 @@ describe('NamespaceBuilder', () => {
     });
   });
 
+  describe('Events', () => {
+    const eventsNamespace = new NamespaceBuilder('events')
+      .mainToWorkerEvent<string>()('mainEvent')
+      .workerToMainEvent<number>()('workerEvent')
+      .bidirectionalEvent<void>()('bothEvent')
+      .bidirectionalMessage<string, string>()('request')
+      .build();
+
+    it('stores event kind only for events', () => {
+      expect(eventsNamespace.messages).toEqual([
+        { name: 'mainEvent', direction: 'mainToWorker', kind: 'event' },
+        { name: 'workerEvent', direction: 'workerToMain', kind: 'event' },
+        { name: 'bothEvent', direction: 'bidirectional', kind: 'event' },
+        { name: 'request', direction: 'bidirectional' },
+      ]);
+    });
+
+    it('adds event kind to message identifiers and send results', () => {
+      expect(eventsNamespace.message.mainEvent.meta).toEqual({
+        direction: 'mainToWorker',
+        type: 'forListen',
+        kind: 'event',
+      });
+      expect(eventsNamespace.send.workerEvent(1)).toEqual({
+        namespace: 'events',
+        name: 'workerEvent',
+        payload: 1,
+        meta: { direction: 'workerToMain', type: 'forSend', kind: 'event' },
+      });
+      expect(eventsNamespace.send.request('text').meta).not.toHaveProperty('kind');
+    });
+  });
+
+  describe('Streams', () => {
+    it('stores stream kind for stream messages', () => {
+      const namespace = new NamespaceBuilder('streams')
+        .mainToWorkerStream<string, number>()('mainStream')
+        .workerToMainStream<void, string>()('workerStream')
+        .bidirectionalStream<number, number>()('bothStream')
+        .build();
+
+      expect(namespace.messages).toEqual([
+        { name: 'mainStream', direction: 'mainToWorker', kind: 'stream' },
+        { name: 'workerStream', direction: 'workerToMain', kind: 'stream' },
+        { name: 'bothStream', direction: 'bidirectional', kind: 'stream' },
+      ]);
+      expect(namespace.send.mainStream('query').meta.kind).toBe('stream');
+      expect(namespace.message.bothStream.meta.kind).toBe('stream');
+    });
+  });
+
+  describe('Message options', () => {
+    it('stores options alongside direction', () => {
+      const namespace = new NamespaceBuilder('options')
+        .mainToWorkerMessage<void, string>({ timeout: 500 })('ping')
+        .workerToMainMessage<void, string>({ timeout: false })('exportReport')
+        .bidirectionalStream<string, string>({ timeout: 1000 })('search')
+        .bidirectionalMessage<void, void>()('plain')
+        .build();
+
+      expect(namespace.messages).toEqual([
+        { name: 'ping', direction: 'mainToWorker', options: { timeout: 500 } },
+        { name: 'exportReport', direction: 'workerToMain', options: { timeout: false } },
+        { name: 'search', direction: 'bidirectional', kind: 'stream', options: { timeout: 1000 } },
+        { name: 'plain', direction: 'bidirectional' },
+      ]);
+    });
+  });
+
   describe('Edge cases', () => {
     it('can build empty namespace without messages', () => {
       const builder = new NamespaceBuilder('empty');
@@ -361,3 +430,74 @@ describe('Integration', () => {
     });
   });
 });
+
+describe('Namespace composition', () => {
+  const coreNamespace = new NamespaceBuilder('core')
+    .mainToWorkerMessage<void, string>()('ping')
+    .workerToMainEvent<string>()('log')
+    .bidirectionalStream<string, number>()('progress')
+    .build();
+
+  const billingNamespace = new NamespaceBuilder('billing')
+    .mainToWorkerMessage<{ amount: number }, string>({ timeout: 1000 })('charge')
+    .build();
+
+  it('from() extends a namespace without changing it', () => {
+    const extended = NamespaceBuilder.from(coreNamespace)
+      .workerToMainMessage<string, void>()('report')
+      .build();
+
+    expect(extended.namespaceName).toBe('core');
+    expect(extended.messages.map((message) => message.name)).toEqual([
+      'ping',
+      'log',
+      'progress',
+      'report',
+    ]);
+    expect(coreNamespace.messages).toHaveLength(3);
+    expect(extended.send.report('done').meta.direction).toBe('workerToMain');
+  });
+
+  it('from() can rename the namespace', () => {
+    const editor = NamespaceBuilder.from(coreNamespace, 'editor').build();
+
+    expect(editor.namespaceName).toBe('editor');
+    expect(editor.send.ping(undefined).namespace).toBe('editor');
+  });
+
+  it('mergeNamespaces() combines messages under the first namespace name', () => {
+    const merged = mergeNamespaces(coreNamespace, billingNamespace);
+
+    expect(merged.namespaceName).toBe('core');
+    expect(merged.messages).toEqual([
+      ...coreNamespace.messages,
+      { name: 'charge', direction: 'mainToWorker', options: { timeout: 1000 } },
+    ]);
+    expect(merged.send.charge({ amount: 5 })).toMatchObject({ namespace: 'core', name: 'charge' });
+    expect(merged.message.log.meta).toEqual({
+      direction: 'workerToMain',
+      type: 'forListen',
+      kind: 'event',
+    });
+  });
+
+  it('mergeNamespaces() throws on clashing names of untyped namespaces', () => {
+    const untyped: NamespaceMessages = coreNamespace;
+
+    expect(() => mergeNamespaces(billingNamespace, untyped)).not.toThrow();
+    expect(() => mergeNamespaces(coreNamespace, NamespaceBuilder.from(untyped).build())).toThrow(
+      'Namespaces declare the same messages: ping, log, progress'
+    );
+  });
+
+  it('pick() and omit() keep only the selected messages', () => {
+    const picked = coreNamespace.pick('ping', 'progress');
+    const omitted = coreNamespace.omit('ping');
+
+    expect(picked.namespaceName).toBe('core');
+    expect(Object.keys(picked.message)).toEqual(['ping', 'progress']);
+    expect(Object.keys(picked.send)).toEqual(['ping', 'progress']);
+    expect(Object.keys(omitted.message)).toEqual(['log', 'progress']);
+    expect(omitted.send.log('hello').payload).toBe('hello');
+  });
+});
@@ -4,8 +4,8 @@
  * and ensure that the Builder API provides strong type guarantees
  */
 
-import { describe, it, expectTypeOf } from 'vitest';
-import { NamespaceBuilder } from '../src/builder';
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { NamespaceBuilder, mergeNamespaces } from '../src/builder';
 
 describe('Builder Type Safety', () => {
   describe('Message directions', () => {
@@ -480,4 +480,57 @@ describe('Builder Type Safety', () => {
       const wrong2: typeof msg3 = msg2;
     });
   });
+  describe('Namespace composition', () => {
+    const core = new NamespaceBuilder('core')
+      .mainToWorkerMessage<string, number>()('count')
+      .workerToMainEvent<boolean>()('toggled')
+      .build();
+    const feature = new NamespaceBuilder('feature')
+      .bidirectionalMessage<void, string>()('status')
+      .build();
+
+    it('from() keeps message types of the source namespace', () => {
+      const extended = NamespaceBuilder.from(core)
+        .workerToMainMessage<number, void>()('report')
+        .build();
+
+      expectTypeOf(extended.namespaceName).toEqualTypeOf<'core'>();
+      expectTypeOf(extended.send.count).parameter(0).toEqualTypeOf<string>();
+      expectTypeOf(extended.send.report).parameter(0).toEqualTypeOf<number>();
+      expectTypeOf(
+        NamespaceBuilder.from(core, 'renamed').build().namespaceName
+      ).toEqualTypeOf<'renamed'>();
+    });
+
+    it('mergeNamespaces() combines message maps', () => {
+      const merged = mergeNamespaces(core, feature);
+
+      expectTypeOf(merged.namespaceName).toEqualTypeOf<'core'>();
+      expectTypeOf(merged.send.count).parameter(0).toEqualTypeOf<string>();
+      expectTypeOf(merged.message.status.meta.direction).toEqualTypeOf<'bidirectional'>();
+      expectTypeOf(merged.message.toggled.meta.kind).toEqualTypeOf<'event'>();
+    });
+
+    it('mergeNamespaces() rejects clashing message names', () => {
+      const clashing = new NamespaceBuilder('clashing')
+        .workerToMainMessage<number, number>()('count')
+        .build();
+
+      // @ts-expect-error - both namespaces declare 'count'
+      expect(() => mergeNamespaces(core, clashing)).toThrow();
+    });
+
+    it('pick() and omit() narrow message maps', () => {
+      const picked = core.pick('count');
+      const omitted = core.omit('count');
+
+      expectTypeOf(picked.send.count).parameter(0).toEqualTypeOf<string>();
+      expectTypeOf(omitted.send.toggled).parameter(0).toEqualTypeOf<boolean>();
+      expectTypeOf(picked.message).not.toHaveProperty('toggled');
+      expectTypeOf(omitted.message).not.toHaveProperty('count');
+
+      // @ts-expect-error - unknown message name
+      core.pick('missing');
+    });
+  });
 });
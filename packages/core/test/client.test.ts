@@ -0,0 +1,82 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { TestChannel } from './helpers/test-channel';
+
+const clientNamespace = new NamespaceBuilder('client')
+  .mainToWorkerMessage<{ id: string }, { name: string }>()('getUserData')
+  .workerToMainMessage<string, void>()('report')
+  .bidirectionalMessage<number, number>()('double')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .build();
+
+describe('Bridge client', () => {
+  let bridgeMain: Bridge<typeof clientNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof clientNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    bridgeMain = new Bridge(clientNamespace, channelMain);
+    bridgeWorker = new Bridge(clientNamespace, channelWorker);
+  });
+
+  it('calls requests and resolves with the response', async () => {
+    bridgeWorker.listen(clientNamespace.message.getUserData, ({ id }) => ({ name: `user ${id}` }));
+    bridgeMain.listen(clientNamespace.message.double, (value) => value * 2);
+
+    await expect(bridgeMain.client.getUserData({ id: '42' })).resolves.toEqual({
+      name: 'user 42',
+    });
+    await expect(bridgeWorker.client.double(21)).resolves.toBe(42);
+  });
+
+  it('passes dispatch options', async () => {
+    bridgeWorker.listen(
+      clientNamespace.message.getUserData,
+      () => new Promise<{ name: string }>(() => undefined)
+    );
+
+    await expect(bridgeMain.client.getUserData({ id: '1' }, { timeout: 10 })).rejects.toThrow(
+      Bridge.ERRORS.TIMEOUT('getUserData')
+    );
+  });
+
+  it('iterates streams and emits events', async () => {
+    const notifications: Array<string> = [];
+    bridgeWorker.listen(clientNamespace.message.countTo, async function* (limit) {
+      for (let value = 1; value <= limit; value++) {
+        yield value;
+      }
+    });
+    bridgeWorker.listen(clientNamespace.message.notify, (text) => {
+      notifications.push(text);
+    });
+
+    const values: Array<number> = [];
+    for await (const value of bridgeMain.client.countTo(3)) {
+      values.push(value);
+    }
+    await bridgeMain.client.notify('hello');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(values).toEqual([1, 2, 3]);
+    expect(notifications).toEqual(['hello']);
+  });
+
+  it('exposes only messages the side can send', () => {
+    expect(Object.keys(bridgeMain.client)).toEqual(['getUserData', 'double', 'countTo', 'notify']);
+    expect(Object.keys(bridgeWorker.client)).toEqual(['report', 'double']);
+    expect(bridgeMain.client).toBe(bridgeMain.client);
+  });
+
+  it('is typed by the channel side', () => {
+    expectTypeOf(bridgeMain.client.getUserData).parameter(0).toEqualTypeOf<{ id: string }>();
+    expectTypeOf(bridgeMain.client.getUserData).returns.toEqualTypeOf<Promise<{ name: string }>>();
+    expectTypeOf(bridgeMain.client.countTo).returns.toEqualTypeOf<AsyncIterable<number>>();
+    expectTypeOf(bridgeMain.client.notify).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(bridgeMain.client).not.toHaveProperty('report');
+    expectTypeOf(bridgeWorker.client).toHaveProperty('report');
+    expectTypeOf(bridgeWorker.client).not.toHaveProperty('getUserData');
+  });
+});
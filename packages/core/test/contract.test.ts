@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Bridge, type TBridgeConfig } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { diffContracts } from './../src/contract';
+import { TestChannel } from './helpers/test-channel';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const hostNamespace = new NamespaceBuilder('app')
+  .mainToWorkerMessage<void, string>()('ping')
+  .workerToMainEvent<string>()('log')
+  .mainToWorkerMessage<string, string>({ schema: { request: isString } })('echo')
+  .build();
+
+describe('Namespace fingerprint', () => {
+  it('is deterministic and independent of declaration order', () => {
+    const reordered = new NamespaceBuilder('app')
+      .mainToWorkerMessage<string, string>({ schema: { request: isString } })('echo')
+      .mainToWorkerMessage<void, string>()('ping')
+      .workerToMainEvent<string>()('log')
+      .build();
+
+    expect(hostNamespace.fingerprint).toMatch(/^[0-9a-f]{8}$/);
+    expect(reordered.fingerprint).toBe(hostNamespace.fingerprint);
+  });
+
+  it('changes with names, directions, kinds and schemas', () => {
+    const fingerprints = [
+      new NamespaceBuilder('app').mainToWorkerMessage<void, void>()('ping').build(),
+      new NamespaceBuilder('app').mainToWorkerMessage<void, void>()('pong').build(),
+      new NamespaceBuilder('app').workerToMainMessage<void, void>()('ping').build(),
+      new NamespaceBuilder('app').mainToWorkerEvent<void>()('ping').build(),
+      new NamespaceBuilder('app')
+        .mainToWorkerMessage<string, void>({ schema: { request: isString } })('ping')
+        .build(),
+    ].map((namespace) => namespace.fingerprint);
+
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+  });
+
+  it('lists the differing messages', () => {
+    const iframeNamespace = new NamespaceBuilder('app')
+      .bidirectionalMessage<void, string>()('ping')
+      .mainToWorkerMessage<string, string>({ schema: { request: isString } })('echo')
+      .mainToWorkerMessage<void, void>()('reset')
+      .build();
+
+    expect(diffContracts(hostNamespace.contract, iframeNamespace.contract)).toEqual({
+      localFingerprint: hostNamespace.fingerprint,
+      remoteFingerprint: iframeNamespace.fingerprint,
+      missingRemotely: ['log'],
+      missingLocally: ['reset'],
+      changed: ['ping'],
+    });
+  });
+});
+
+describe('Bridge contract check', () => {
+  const iframeNamespace = NamespaceBuilder.from(hostNamespace)
+    .mainToWorkerMessage<void, void>()('reset')
+    .build();
+
+  const connect = (config?: TBridgeConfig): Bridge<typeof hostNamespace, TestChannel<'main'>> => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    new Bridge(iframeNamespace, channelWorker);
+    return new Bridge(hostNamespace, channelMain, config);
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('connects silently when definitions match', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    new Bridge(hostNamespace, channelWorker);
+
+    await new Bridge(hostNamespace, channelMain).ready();
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('connects silently by default and warns about differing messages on request', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(connect().ready()).resolves.toBeUndefined();
+    expect(warn).not.toHaveBeenCalled();
+
+    await expect(connect({ onContractMismatch: 'warn' }).ready()).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('missing locally: [reset]'));
+  });
+
+  it('rejects the connection with CONTRACT_MISMATCH', async () => {
+    const bridge = connect({ onContractMismatch: 'reject' });
+
+    await expect(bridge.ready()).rejects.toMatchObject({
+      code: 'CONTRACT_MISMATCH',
+      data: { missingLocally: ['reset'], missingRemotely: [], changed: [] },
+    });
+    await expect(bridge.dispatch(hostNamespace.send.ping(undefined))).rejects.toMatchObject({
+      code: 'CONTRACT_MISMATCH',
+    });
+  });
+
+  it('checks the contract again when the peer reconnects with another namespace', async () => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const worker = new Bridge(hostNamespace, channelWorker);
+    worker.listen(hostNamespace.message.ping, () => 'pong');
+    const bridge = new Bridge(hostNamespace, channelMain, { onContractMismatch: 'reject' });
+    await bridge.ready();
+    expect(await bridge.dispatch(hostNamespace.send.ping(undefined))).toBe('pong');
+
+    worker.destroy();
+    await new Bridge(iframeNamespace, channelWorker).ready();
+
+    await expect(bridge.ready()).rejects.toMatchObject({
+      code: 'CONTRACT_MISMATCH',
+      data: { missingLocally: ['reset'] },
+    });
+    await expect(bridge.dispatch(hostNamespace.send.ping(undefined))).rejects.toMatchObject({
+      code: 'CONTRACT_MISMATCH',
+    });
+  });
+
+  it('passes the differences to a custom reaction', async () => {
+    const onContractMismatch = vi.fn();
+
+    await connect({ onContractMismatch }).ready();
+
+    expect(onContractMismatch).toHaveBeenCalledTimes(1);
+    expect(onContractMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ missingLocally: ['reset'] })
+    );
+  });
+});
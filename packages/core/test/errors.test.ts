@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BridgeError,
+  BridgeRemoteError,
+  createTimeoutError,
+  deserializeError,
+  getErrorOutcome,
+  serializeError,
+} from './../src/errors';
+import { createAbortError } from './../src/utils';
+
+describe('Errors', () => {
+  it('serializes name, message, code, data, stack and cause of Error instances', () => {
+    const cause = new TypeError('Invalid id');
+    const error = Object.assign(new BridgeError('NOT_FOUND', 'User not found', { id: '1' }), {
+      cause,
+    });
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toMatchObject({
+      name: 'BridgeError',
+      message: 'User not found',
+      code: 'NOT_FOUND',
+      data: { id: '1' },
+      cause: { name: 'TypeError', message: 'Invalid id' },
+    });
+    expect(serialized.stack).toBe(error.stack);
+  });
+
+  it('serializes values that are not errors', () => {
+    expect(serializeError('Plain string')).toEqual({ name: 'Error', message: 'Plain string' });
+    expect(serializeError({ reason: 'busy' })).toEqual({
+      name: 'Error',
+      message: '{"reason":"busy"}',
+      data: { reason: 'busy' },
+    });
+    expect(serializeError(undefined)).toEqual({ name: 'Error', message: 'Unknown error' });
+  });
+
+  it('limits depth of nested causes', () => {
+    const error = new Error('root') as Error & { cause?: unknown };
+    error.cause = error;
+
+    let depth = 0;
+    for (let cause = serializeError(error).cause; cause; cause = cause.cause) {
+      depth++;
+    }
+
+    expect(depth).toBe(5);
+  });
+
+  it('restores BridgeRemoteError from serialized shape', () => {
+    const error = deserializeError({
+      name: 'BridgeError',
+      message: 'User not found',
+      code: 'NOT_FOUND',
+      data: { id: '1' },
+      stack: 'remote stack',
+      cause: { name: 'TypeError', message: 'Invalid id' },
+    });
+
+    expect(error).toBeInstanceOf(BridgeRemoteError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'BridgeError',
+      message: 'User not found',
+      code: 'NOT_FOUND',
+      data: { id: '1' },
+      remoteStack: 'remote stack',
+    });
+    expect(error.cause).toBeInstanceOf(BridgeRemoteError);
+    expect(error.cause?.message).toBe('Invalid id');
+  });
+
+  it('restores plain string errors sent by older bridges', () => {
+    const error = deserializeError('Handler error');
+
+    expect(error).toBeInstanceOf(BridgeRemoteError);
+    expect(error.message).toBe('Handler error');
+  });
+
+  it('tells outcomes of failed messages apart', () => {
+    const timeout = createTimeoutError('Message timeout: ping');
+
+    expect(timeout).toBeInstanceOf(BridgeError);
+    expect(timeout.code).toBe('TIMEOUT');
+    expect(getErrorOutcome(timeout)).toBe('timeout');
+    expect(getErrorOutcome(new BridgeRemoteError({ name: 'Error', message: 'Failed' }))).toBe(
+      'remoteError'
+    );
+    expect(getErrorOutcome(createAbortError('Aborted'))).toBe('cancel');
+    // Same message without the code is not a timeout
+    expect(getErrorOutcome(new Error('Message timeout: ping'))).toBe('error');
+    expect(getErrorOutcome('failed')).toBe('error');
+  });
+});
@@ -0,0 +1,68 @@
+import type { IChannel } from './../../src/channel';
+import type { TBridgeSide, TInternalMessage } from './../../src/types';
+
+// Test Channel implementation using simple pub-sub pattern
+export class TestChannel<TSide extends TBridgeSide> implements IChannel<TSide> {
+  private handlers: Array<(message: TInternalMessage) => void> = [];
+  private ready = false;
+  public readonly side: TSide;
+
+  constructor(
+    private config: { side: TSide },
+    private peerChannel?: TestChannel<TSide extends 'main' ? 'worker' : 'main'>
+  ) {
+    this.side = config.side;
+  }
+
+  initialize(): void {
+    this.ready = true;
+  }
+
+  send(message: TInternalMessage): void {
+    if (!this.ready) {
+      throw new Error('Channel is not ready');
+    }
+
+    // Send to peer channel if available
+    if (this.peerChannel) {
+      // Simulate async delivery
+      queueMicrotask(() => {
+        this.peerChannel!.deliverMessage(message);
+      });
+    }
+  }
+
+  onMessage(handler: (message: TInternalMessage) => void): void {
+    this.handlers.push(handler);
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getSide(): TSide {
+    return this.config.side;
+  }
+
+  destroy(): void {
+    this.ready = false;
+    this.handlers = [];
+  }
+
+  // Internal method to deliver message to handlers
+  private deliverMessage(message: TInternalMessage): void {
+    this.handlers.forEach((handler) => handler(message));
+  }
+
+  // Helper to connect two channels for bidirectional communication
+  static createPair(): [TestChannel<'main'>, TestChannel<'worker'>] {
+    const mainChannel = new TestChannel<'main'>({ side: 'main' });
+    const workerChannel = new TestChannel<'worker'>({ side: 'worker' });
+
+    // Connect channels to each other
+    mainChannel.peerChannel = workerChannel;
+    workerChannel.peerChannel = mainChannel;
+
+    return [mainChannel, workerChannel];
+  }
+}
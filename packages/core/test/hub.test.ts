@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { BridgeHub } from './../src/hub';
+import { TestChannel } from './helpers/test-channel';
+
+const usersNamespace = new NamespaceBuilder('users')
+  .mainToWorkerMessage<{ id: string }, string>()('getName')
+  .mainToWorkerMessage<void, string>()('ping')
+  .build();
+
+const reportsNamespace = new NamespaceBuilder('reports')
+  .mainToWorkerMessage<void, number>()('count')
+  .mainToWorkerMessage<void, string>()('ping')
+  .build();
+
+describe('BridgeHub', () => {
+  let hubMain: BridgeHub<'main'>;
+  let hubWorker: BridgeHub<'worker'>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+
+    hubMain = new BridgeHub(channelMain);
+    hubWorker = new BridgeHub(channelWorker);
+  });
+
+  it('routes messages of several namespaces over one channel', async () => {
+    const usersMain = hubMain.bridge(usersNamespace);
+    const reportsMain = hubMain.bridge(reportsNamespace);
+    hubWorker
+      .bridge(usersNamespace)
+      .listen(usersNamespace.message.getName, ({ id }) => `User ${id}`);
+    hubWorker.bridge(reportsNamespace).listen(reportsNamespace.message.count, () => 42);
+
+    await expect(usersMain.dispatch(usersNamespace.send.getName({ id: '1' }))).resolves.toBe(
+      'User 1'
+    );
+    await expect(reportsMain.dispatch(reportsNamespace.send.count(undefined))).resolves.toBe(42);
+  });
+
+  it('matches responses only by the issuing namespace', async () => {
+    const usersMain = hubMain.bridge(usersNamespace);
+    const reportsMain = hubMain.bridge(reportsNamespace);
+    hubWorker.bridge(usersNamespace).listen(usersNamespace.message.ping, () => 'users');
+    hubWorker.bridge(reportsNamespace).listen(reportsNamespace.message.ping, () => 'reports');
+
+    const responses = await Promise.all([
+      usersMain.dispatch(usersNamespace.send.ping(undefined)),
+      reportsMain.dispatch(reportsNamespace.send.ping(undefined)),
+    ]);
+
+    expect(responses).toEqual(['users', 'reports']);
+  });
+
+  it('completes handshake per namespace', async () => {
+    const usersMain = hubMain.bridge(usersNamespace);
+    hubWorker.bridge(usersNamespace);
+
+    await expect(usersMain.ready()).resolves.toBeUndefined();
+  });
+
+  it('allows one bridge per namespace until it is destroyed', () => {
+    const bridge = hubMain.bridge(usersNamespace);
+
+    expect(() => hubMain.bridge(usersNamespace)).toThrow(BridgeHub.ERRORS.NAMESPACE_TAKEN);
+
+    bridge.destroy();
+    expect(() => hubMain.bridge(usersNamespace)).not.toThrow();
+  });
+
+  it('keeps shared channel open when a single bridge is destroyed', async () => {
+    hubMain.bridge(usersNamespace).destroy();
+    const reportsMain = hubMain.bridge(reportsNamespace);
+    hubWorker.bridge(reportsNamespace).listen(reportsNamespace.message.count, () => 1);
+
+    await expect(reportsMain.dispatch(reportsNamespace.send.count(undefined))).resolves.toBe(1);
+  });
+
+  it('destroys all bridges with the hub', async () => {
+    const usersMain = hubMain.bridge(usersNamespace);
+    const ready = usersMain.ready();
+
+    hubMain.destroy();
+
+    await expect(ready).rejects.toThrow(Bridge.ERRORS.BRIDGE_DESTROYED);
+    expect(usersMain.isReady()).toBe(false);
+  });
+});
+
+describe('Bridges sharing a channel without hub', () => {
+  it('ignore frames of other namespaces', async () => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    const reportsMain = new Bridge(reportsNamespace, channelMain, { timeout: 50 });
+    // Worker only serves users namespace, reports request must not be answered with NO_HANDLER
+    new Bridge(usersNamespace, channelWorker);
+
+    await expect(reportsMain.dispatch(reportsNamespace.send.ping(undefined))).rejects.toThrow(
+      Bridge.ERRORS.TIMEOUT('ping')
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { TestChannel } from './helpers/test-channel';
+
+const appNamespace = new NamespaceBuilder('implement')
+  .mainToWorkerMessage<{ id: string }, string>()('getUserName')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .bidirectionalMessage<number, number>()('double')
+  .workerToMainMessage<string, void>()('report')
+  .build();
+
+describe('Bridge.implement', () => {
+  let bridgeMain: Bridge<typeof appNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, TestChannel<'worker'>>;
+  let notifications: Array<string>;
+
+  const implementWorker = (): (() => void) =>
+    bridgeWorker.implement({
+      getUserName: ({ id }) => `user ${id}`,
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+      notify: (text) => {
+        notifications.push(text);
+      },
+      double: (value) => value * 2,
+    });
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    bridgeMain = new Bridge(appNamespace, channelMain, { timeout: 100 });
+    bridgeWorker = new Bridge(appNamespace, channelWorker);
+    notifications = [];
+  });
+
+  it('registers handlers for all received messages', async () => {
+    implementWorker();
+
+    const values: Array<number> = [];
+    for await (const value of bridgeMain.client.countTo(2)) {
+      values.push(value);
+    }
+    await bridgeMain.client.notify('hi');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await expect(bridgeMain.client.getUserName({ id: '7' })).resolves.toBe('user 7');
+    await expect(bridgeMain.client.double(4)).resolves.toBe(8);
+    expect(values).toEqual([1, 2]);
+    expect(notifications).toEqual(['hi']);
+  });
+
+  it('returns a disposer removing all handlers', async () => {
+    const dispose = implementWorker();
+    dispose();
+
+    await expect(bridgeMain.client.double(4)).rejects.toThrow(Bridge.ERRORS.NO_HANDLER('double'));
+  });
+
+  it('fails to compile and throws on missing or unexpected handlers', () => {
+    const handlers = { report: (): void => undefined, log: (): void => undefined };
+
+    expect(() =>
+      // @ts-expect-error - missing handler for 'report'
+      bridgeMain.implement({ double: (value: number) => value })
+    ).toThrow(Bridge.ERRORS.INVALID_IMPLEMENTATION(['report'], []));
+    expect(() =>
+      bridgeWorker.implement({
+        getUserName: () => '',
+        countTo: async function* () {},
+        notify: () => undefined,
+        double: (value) => value,
+        // @ts-expect-error - handler for a message the worker sends
+        report: () => undefined,
+      })
+    ).toThrow(Bridge.ERRORS.INVALID_IMPLEMENTATION([], ['report']));
+    expect(() =>
+      // @ts-expect-error - extra handlers are rejected for non-literal objects too
+      bridgeMain.implement({ ...handlers, double: (value: number) => value })
+    ).toThrow('unexpected: [log]');
+  });
+
+  it('registers nothing when handlers are invalid', async () => {
+    expect(() =>
+      // @ts-expect-error - missing handlers
+      bridgeWorker.implement({ double: (value: number) => value * 2 })
+    ).toThrow('missing: [getUserName, countTo, notify]');
+
+    await expect(bridgeMain.client.double(4)).rejects.toThrow(Bridge.ERRORS.NO_HANDLER('double'));
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { type TMetricsSample, MetricsCollector } from './../src/metrics';
+import { TestChannel } from './helpers/test-channel';
+
+const appNamespace = new NamespaceBuilder('metrics')
+  .mainToWorkerMessage<string, string>()('echo')
+  .mainToWorkerMessage<void, void>()('fail')
+  .mainToWorkerMessage<void, void>()('hang')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .build();
+
+describe('MetricsCollector', () => {
+  let bridgeMain: Bridge<typeof appNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, TestChannel<'worker'>>;
+  let metrics: MetricsCollector;
+
+  const getMetrics = (pipeline: string, name: string): unknown =>
+    metrics.snapshot().messages.find((entry) => entry.pipeline === pipeline && entry.name === name);
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    bridgeMain = new Bridge(appNamespace, channelMain, { timeout: 30 });
+    bridgeWorker = new Bridge(appNamespace, channelWorker);
+    metrics = new MetricsCollector({ latencyBuckets: [10, 1000] });
+    bridgeMain.use(metrics.middleware);
+    bridgeWorker.use(metrics.middleware);
+
+    bridgeWorker.implement({
+      echo: (text) => text,
+      fail: () => {
+        throw new Error('Broken');
+      },
+      hang: () => new Promise<void>(() => undefined),
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+      notify: () => undefined,
+    });
+  });
+
+  it('records outcomes, latency and payload sizes per message and pipeline', async () => {
+    await bridgeMain.client.echo('hello');
+    await bridgeMain.client.echo('hi');
+
+    expect(getMetrics('dispatch', 'echo')).toMatchObject({
+      namespace: 'metrics',
+      inFlight: 0,
+      outcomes: { success: 2, remoteError: 0, timeout: 0, cancel: 0, error: 0 },
+      latency: { bounds: [10, 1000], counts: [2, 2, 2], count: 2 },
+      requestSize: { total: 11, max: 7 },
+      responseSize: { total: 11, max: 7 },
+    });
+    expect(getMetrics('handle', 'echo')).toMatchObject({ outcomes: { success: 2 } });
+  });
+
+  it('counts remote errors, timeouts and cancels', async () => {
+    const controller = new AbortController();
+    const cancelled = bridgeMain.dispatch(appNamespace.send.echo('x'), {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow();
+    await expect(bridgeMain.client.fail()).rejects.toThrow('Broken');
+    await expect(bridgeMain.client.hang()).rejects.toThrow(Bridge.ERRORS.TIMEOUT('hang'));
+
+    expect(getMetrics('dispatch', 'echo')).toMatchObject({ outcomes: { cancel: 1 } });
+    expect(getMetrics('dispatch', 'fail')).toMatchObject({ outcomes: { remoteError: 1 } });
+    expect(getMetrics('handle', 'fail')).toMatchObject({ outcomes: { error: 1 } });
+    expect(getMetrics('dispatch', 'hang')).toMatchObject({ outcomes: { timeout: 1 } });
+  });
+
+  it('tracks messages in flight', async () => {
+    const response = bridgeMain.client.echo('x');
+    void bridgeMain.client.hang().catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(metrics.snapshot().inFlight).toBe(2);
+    await response;
+    expect(getMetrics('dispatch', 'hang')).toMatchObject({ inFlight: 1 });
+  });
+
+  it('measures streams until the last chunk and events without response', async () => {
+    const chunks: Array<number> = [];
+    for await (const chunk of bridgeMain.client.countTo(3)) {
+      chunks.push(chunk);
+    }
+    await bridgeMain.client.notify('hi');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(chunks).toEqual([1, 2, 3]);
+    expect(getMetrics('dispatch', 'countTo')).toMatchObject({
+      outcomes: { success: 1 },
+      responseSize: { total: 3 },
+    });
+    expect(getMetrics('handle', 'notify')).toMatchObject({
+      outcomes: { success: 1 },
+      responseSize: { total: 0 },
+    });
+  });
+
+  it('notifies subscribers and resets collected metrics', async () => {
+    const samples: Array<TMetricsSample> = [];
+    const unsubscribe = metrics.subscribe((sample) => {
+      samples.push(sample);
+    });
+
+    await bridgeMain.client.echo('hi');
+    unsubscribe();
+    await bridgeMain.client.echo('hi');
+    metrics.reset();
+
+    expect(samples.map(({ pipeline, outcome }) => `${pipeline}:${outcome}`)).toEqual([
+      'handle:success',
+      'dispatch:success',
+    ]);
+    expect(getMetrics('dispatch', 'echo')).toMatchObject({
+      outcomes: { success: 0 },
+      latency: { count: 0 },
+    });
+  });
+  it('counts streams in flight only while they are read', async () => {
+    const stream = bridgeMain.client.countTo(2);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getMetrics('dispatch', 'countTo')).toMatchObject({ inFlight: 0 });
+
+    const iterator = stream[Symbol.asyncIterator]();
+    await iterator.next();
+    expect(getMetrics('dispatch', 'countTo')).toMatchObject({ inFlight: 1 });
+
+    await iterator.return?.();
+    expect(getMetrics('dispatch', 'countTo')).toMatchObject({
+      inFlight: 0,
+      outcomes: { cancel: 1 },
+    });
+  });
+
+  it('reports errors of subscribers without failing messages', async () => {
+    const reportError = vi.fn();
+    metrics = new MetricsCollector({ reportError });
+    bridgeMain.use(metrics.middleware);
+    metrics.subscribe(() => {
+      throw new Error('Broken subscriber');
+    });
+
+    await expect(bridgeMain.client.echo('hi')).resolves.toBe('hi');
+    const chunks: Array<number> = [];
+    for await (const chunk of bridgeMain.client.countTo(2)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2]);
+    expect(reportError).toHaveBeenCalledTimes(2);
+    expect(getMetrics('dispatch', 'countTo')).toMatchObject({
+      inFlight: 0,
+      outcomes: { success: 1, error: 0 },
+    });
+  });
+});
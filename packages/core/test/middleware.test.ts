@@ -0,0 +1,362 @@
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import type { TMiddleware } from './../src/middleware';
+import { TestChannel } from './helpers/test-channel';
+
+const appNamespace = new NamespaceBuilder('onion')
+  .mainToWorkerMessage<number, number>()('double')
+  .mainToWorkerMessage<string, string>()('echo')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .build();
+
+const otherNamespace = new NamespaceBuilder('other')
+  .mainToWorkerMessage<number, number>()('double')
+  .build();
+
+const collect = async <T>(stream: AsyncIterable<T>): Promise<Array<T>> => {
+  const chunks: Array<T> = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe('Onion middleware', () => {
+  let bridgeMain: Bridge<typeof appNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, TestChannel<'worker'>>;
+  let handlerCalls: number;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    bridgeMain = new Bridge(appNamespace, channelMain, { timeout: 100 });
+    bridgeWorker = new Bridge(appNamespace, channelWorker);
+    handlerCalls = 0;
+
+    bridgeWorker.implement({
+      double: (value) => {
+        handlerCalls++;
+        return value * 2;
+      },
+      echo: (text, { headers }) => `${text}${headers.suffix ?? ''}`,
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+      notify: () => {
+        handlerCalls++;
+      },
+    });
+  });
+
+  it('runs middleware around the call in registration order', async () => {
+    const order: Array<string> = [];
+    const trace =
+      (label: string): TMiddleware =>
+      async (ctx, next) => {
+        order.push(`${label}:before:${ctx.pipeline}`);
+        await next();
+        order.push(`${label}:after:${ctx.pipeline}`);
+      };
+    bridgeMain.use(trace('outer'));
+    bridgeMain.use(trace('inner'));
+    bridgeWorker.use(trace('handle'));
+
+    await bridgeMain.client.double(2);
+
+    expect(order).toEqual([
+      'outer:before:dispatch',
+      'inner:before:dispatch',
+      'handle:before:handle',
+      'handle:after:handle',
+      'inner:after:dispatch',
+      'outer:after:dispatch',
+    ]);
+  });
+
+  it('transforms request, response and headers', async () => {
+    bridgeMain.use(async (ctx, next) => {
+      ctx.request = `${String(ctx.request)}?`;
+      ctx.headers.suffix = '!';
+      await next();
+      ctx.response = `${String(ctx.response)}.`;
+    });
+    bridgeWorker.use(async (ctx, next) => {
+      await next();
+      ctx.responseHeaders.handledBy = 'worker';
+    });
+    let responseHeaders = {};
+    bridgeMain.use(async (ctx, next) => {
+      await next();
+      responseHeaders = ctx.responseHeaders;
+    });
+
+    await expect(bridgeMain.client.echo('hi')).resolves.toBe('hi?!.');
+    expect(responseHeaders).toEqual({ suffix: '!', handledBy: 'worker' });
+  });
+
+  it('short-circuits dispatch without sending the request', async () => {
+    bridgeMain.use((ctx) => {
+      ctx.response = 42;
+    });
+
+    await expect(bridgeMain.client.double(2)).resolves.toBe(42);
+    expect(handlerCalls).toBe(0);
+  });
+
+  it('short-circuits handle without calling the handler', async () => {
+    bridgeWorker.use(async (ctx, next) => {
+      if (ctx.request === 0) {
+        ctx.response = -1;
+        return;
+      }
+      await next();
+    });
+
+    await expect(bridgeMain.client.double(0)).resolves.toBe(-1);
+    expect(handlerCalls).toBe(0);
+  });
+
+  it('retries by calling next again', async () => {
+    let attempts = 0;
+    bridgeWorker.use(async (ctx, next) => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error('Flaky');
+      }
+      await next();
+    });
+    bridgeMain.use(async (ctx, next) => {
+      try {
+        await next();
+      } catch {
+        await next();
+      }
+    });
+
+    await expect(bridgeMain.client.double(3)).resolves.toBe(6);
+    expect(attempts).toBe(2);
+  });
+
+  it('rejects the call with errors thrown by middleware', async () => {
+    const errorSpy = vi.fn();
+    bridgeMain.use({ onError: errorSpy });
+    bridgeWorker.use(() => {
+      throw new Error('Forbidden');
+    });
+
+    await expect(bridgeMain.client.double(1)).rejects.toThrow('Forbidden');
+    expect(errorSpy).toHaveBeenCalledWith('onion', 'double', expect.any(Error));
+  });
+
+  it('scopes middleware to messages, namespaces and pipelines', async () => {
+    const seen: Array<string> = [];
+    const record =
+      (label: string): TMiddleware =>
+      (ctx, next) => {
+        seen.push(`${label}:${ctx.name}`);
+        return next();
+      };
+    bridgeMain.use(record('message'), { messages: [appNamespace.message.echo] });
+    bridgeMain.use(record('namespace'), { namespaces: [otherNamespace.namespaceName] });
+    bridgeMain.use(record('other-message'), { messages: [otherNamespace.message.double] });
+    bridgeMain.use(record('handle'), { pipeline: 'handle' });
+    bridgeWorker.use(record('handle'), { pipeline: 'handle' });
+
+    await bridgeMain.client.double(1);
+    await bridgeMain.client.echo('hi');
+
+    expect(seen).toEqual(['handle:double', 'message:echo', 'handle:echo']);
+  });
+
+  it('exposes the same message id on both sides', async () => {
+    const ids: Array<string> = [];
+    const record: TMiddleware = (ctx, next) => {
+      ids.push(ctx.id);
+      return next();
+    };
+    bridgeMain.use(record);
+    bridgeWorker.use(record);
+
+    await bridgeMain.client.double(1);
+    await collect(bridgeMain.client.countTo(1));
+
+    expect(ids).toHaveLength(4);
+    expect(ids[0]).toBe(ids[1]);
+    expect(ids[2]).toBe(ids[3]);
+    expect(ids[0]).not.toBe(ids[2]);
+  });
+
+  it('removes middleware with the returned function', async () => {
+    const remove = bridgeMain.use((ctx) => {
+      ctx.response = 0;
+    });
+    remove();
+
+    await expect(bridgeMain.client.double(2)).resolves.toBe(4);
+  });
+
+  it('wraps stream responses on both sides', async () => {
+    bridgeWorker.use(async (ctx, next) => {
+      await next();
+      const chunks = ctx.response as AsyncIterable<number>;
+      ctx.response = (async function* () {
+        for await (const chunk of chunks) {
+          yield chunk * 10;
+        }
+      })();
+    });
+    bridgeMain.use(async (ctx, next) => {
+      ctx.request = (ctx.request as number) + 1;
+      await next();
+      const chunks = ctx.response as AsyncIterable<number>;
+      ctx.response = (async function* () {
+        for await (const chunk of chunks) {
+          yield chunk + 1;
+        }
+      })();
+    });
+
+    await expect(collect(bridgeMain.client.countTo(2))).resolves.toEqual([11, 21, 31]);
+  });
+
+  it('short-circuits streams and rejects non-iterable stream responses', async () => {
+    bridgeMain.use(
+      (ctx) => {
+        ctx.response =
+          ctx.request === 0
+            ? (async function* () {
+                yield* [7, 8];
+              })()
+            : 'not a stream';
+      },
+      { messages: [appNamespace.message.countTo] }
+    );
+
+    await expect(collect(bridgeMain.client.countTo(0))).resolves.toEqual([7, 8]);
+    await expect(collect(bridgeMain.client.countTo(1))).rejects.toThrow(
+      Bridge.ERRORS.INVALID_STREAM_RESPONSE('countTo')
+    );
+  });
+
+  it('passes events through both pipelines without a response', async () => {
+    const kinds: Array<string> = [];
+    const record: TMiddleware = async (ctx, next) => {
+      await next();
+      kinds.push(`${ctx.pipeline}:${ctx.kind}:${String(ctx.response)}`);
+    };
+    bridgeMain.use(record);
+    bridgeWorker.use(record);
+
+    await bridgeMain.client.notify('hi');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(kinds).toEqual(['dispatch:event:undefined', 'handle:event:undefined']);
+    expect(handlerCalls).toBe(1);
+  });
+});
+
+describe('Bridge.useFor', () => {
+  const userNamespace = new NamespaceBuilder('typed')
+    .mainToWorkerMessage<{ userId: string }, { name: string; age: number }>()('getUserData')
+    .mainToWorkerMessage<number, number>()('double')
+    .mainToWorkerStream<string, string>()('search')
+    .build();
+
+  let bridgeMain: Bridge<typeof userNamespace, TestChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof userNamespace, TestChannel<'worker'>>;
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    bridgeMain = new Bridge(userNamespace, channelMain, { timeout: 100 });
+    bridgeWorker = new Bridge(userNamespace, channelWorker);
+
+    bridgeWorker.implement({
+      getUserData: ({ userId }) => ({ name: `user ${userId}`, age: 30 }),
+      double: (value) => value * 2,
+      search: async function* (query) {
+        yield `${query}-1`;
+        yield `${query}-2`;
+      },
+    });
+  });
+
+  it('types hooks with request and response of the message', async () => {
+    bridgeMain.useFor(userNamespace.message.getUserData, {
+      onBeforeSend: (namespace, messageName, request) => {
+        expectTypeOf(namespace).toEqualTypeOf<'typed'>();
+        expectTypeOf(messageName).toEqualTypeOf<'getUserData'>();
+        expectTypeOf(request).toEqualTypeOf<{ userId: string }>();
+        return { userId: request.userId.trim() };
+      },
+      onAfterReceive: (namespace, messageName, response) => ({
+        ...response,
+        name: response.name.toUpperCase(),
+      }),
+    });
+
+    await expect(bridgeMain.client.getUserData({ userId: ' 7 ' })).resolves.toEqual({
+      name: 'USER 7',
+      age: 30,
+    });
+  });
+
+  it('types onion middleware context and applies it only to the message', async () => {
+    const seen: Array<string> = [];
+    bridgeWorker.useFor(userNamespace.message.double, async (ctx, next) => {
+      expectTypeOf(ctx.request).toEqualTypeOf<number>();
+      expectTypeOf(ctx.response).toEqualTypeOf<number | undefined>();
+      seen.push(ctx.name);
+      ctx.request += 1;
+      await next();
+    });
+
+    await expect(bridgeMain.client.double(1)).resolves.toBe(4);
+    await bridgeMain.client.getUserData({ userId: '1' });
+    expect(seen).toEqual(['double']);
+  });
+
+  it('exposes stream chunks as AsyncIterable and chunk types to hooks', async () => {
+    bridgeMain.useFor(userNamespace.message.search, async (ctx, next) => {
+      await next();
+      expectTypeOf(ctx.response).toEqualTypeOf<AsyncIterable<string> | undefined>();
+    });
+    bridgeWorker.useFor(userNamespace.message.search, {
+      onAfterHandle: (namespace, messageName, chunk) => chunk.toUpperCase(),
+    });
+
+    const chunks: Array<string> = [];
+    for await (const chunk of bridgeMain.client.search('q')) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(['Q-1', 'Q-2']);
+  });
+
+  it('rejects transformations changing the payload shape', () => {
+    bridgeMain.useFor(userNamespace.message.getUserData, {
+      // @ts-expect-error - request must keep the shape
+      onBeforeSend: () => ({ userId: 42 }),
+    });
+    bridgeMain.useFor(userNamespace.message.getUserData, {
+      // @ts-expect-error - response can't drop fields
+      onAfterReceive: (namespace, messageName, response) => ({ name: response.name }),
+    });
+    bridgeMain.useFor(userNamespace.message.double, (ctx) => {
+      // @ts-expect-error - request of double is a number
+      ctx.request = 'two';
+    });
+  });
+
+  it('throws for identifiers of other namespaces or message payloads', () => {
+    expect(() =>
+      // @ts-expect-error - message of another namespace
+      bridgeMain.useFor(appNamespace.message.double, {})
+    ).toThrow(Bridge.ERRORS.NAMESPACE_MISMATCH('onion', 'typed'));
+    expect(() =>
+      // @ts-expect-error - send payload instead of the message identifier
+      bridgeMain.useFor(userNamespace.send.double(1), {})
+    ).toThrow(Bridge.ERRORS.INVALID_MESSAGE_TYPE('forSend', '.message.%message%'));
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Bridge } from './../src/bridge';
+import { NamespaceBuilder } from './../src/builder';
+import { PROTOCOL_VERSION, negotiateProtocol } from './../src/protocol';
+import type { TInternalMessage } from './../src/types';
+import { TestChannel } from './helpers/test-channel';
+
+const protocolNamespace = new NamespaceBuilder('protocol')
+  .mainToWorkerMessage<void, string>()('ping')
+  .workerToMainMessage<void, string>()('pong')
+  .build();
+
+describe('Protocol negotiation', () => {
+  it('picks the highest common version', () => {
+    expect(negotiateProtocol([1, 2, 3], [2, 3, 4])).toBe(3);
+    expect(negotiateProtocol([1], [1, 2])).toBe(1);
+    expect(negotiateProtocol([1], [2, 3])).toBeNull();
+  });
+});
+
+describe('Bridge protocol', () => {
+  let bridgeMain: Bridge<typeof protocolNamespace, TestChannel<'main'>>;
+  // Raw peer, sends frames without a bridge to simulate other protocol versions
+  let peerChannel: TestChannel<'worker'>;
+  let peerFrames: Array<TInternalMessage>;
+
+  const sendFromPeer = (frame: Record<string, unknown>): void => {
+    peerChannel.send({
+      id: `peer_${Math.random()}`,
+      namespace: 'protocol',
+      sender: 'worker',
+      ...frame,
+    } as unknown as TInternalMessage);
+  };
+
+  beforeEach(() => {
+    const [channelMain, channelWorker] = TestChannel.createPair();
+    peerChannel = channelWorker;
+    peerChannel.initialize();
+    peerFrames = [];
+    peerChannel.onMessage((frame) => peerFrames.push(frame));
+
+    bridgeMain = new Bridge(protocolNamespace, channelMain, { timeout: 50 });
+  });
+
+  it('stamps every frame with the protocol version', async () => {
+    sendFromPeer({ type: 'hello', name: '', protocols: [PROTOCOL_VERSION] });
+    await bridgeMain.ready();
+    void bridgeMain.dispatch(protocolNamespace.send.ping(undefined)).catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(peerFrames.map((frame) => frame.type)).toEqual(['hello', 'ack', 'request']);
+    expect(peerFrames.every((frame) => frame.protocol === PROTOCOL_VERSION)).toBe(true);
+  });
+
+  it('connects to peers supporting newer versions too', async () => {
+    // Newer peer stamps frames with its own version, the handshake is read anyway
+    sendFromPeer({
+      type: 'hello',
+      name: '',
+      protocols: [PROTOCOL_VERSION, PROTOCOL_VERSION + 1],
+      protocol: PROTOCOL_VERSION + 1,
+    });
+
+    await expect(bridgeMain.ready()).resolves.toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // Ack is sent after negotiation in a version the older side reads
+    expect(peerFrames.filter((frame) => frame.type === 'ack')).toMatchObject([
+      { protocol: PROTOCOL_VERSION },
+    ]);
+  });
+
+  it('fails with PROTOCOL_MISMATCH when there is no common version', async () => {
+    sendFromPeer({
+      type: 'hello',
+      name: '',
+      protocols: [PROTOCOL_VERSION + 1],
+      protocol: PROTOCOL_VERSION + 1,
+    });
+
+    await expect(bridgeMain.ready()).rejects.toMatchObject({
+      code: 'PROTOCOL_MISMATCH',
+      data: { local: [PROTOCOL_VERSION], remote: [PROTOCOL_VERSION + 1] },
+    });
+    await expect(bridgeMain.dispatch(protocolNamespace.send.ping(undefined))).rejects.toMatchObject(
+      { code: 'PROTOCOL_MISMATCH' }
+    );
+    // Peer is answered anyway, so it detects the mismatch on its side
+    expect(peerFrames.some((frame) => frame.type === 'ack')).toBe(true);
+  });
+
+  it('answers requests of unsupported versions with PROTOCOL_MISMATCH', async () => {
+    bridgeMain.listen(protocolNamespace.message.pong, () => 'pong');
+
+    sendFromPeer({ type: 'request', name: 'pong', data: undefined, protocol: 99 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const errorFrame = peerFrames.find((frame) => frame.type === 'error');
+    expect(errorFrame).toMatchObject({ error: { code: 'PROTOCOL_MISMATCH' } });
+  });
+
+  it('ignores unknown frame types', async () => {
+    bridgeMain.listen(protocolNamespace.message.pong, () => 'pong');
+
+    sendFromPeer({ type: 'future-frame', name: 'pong' });
+    sendFromPeer({ type: 'request', name: 'pong', data: undefined });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(peerFrames.filter((frame) => frame.type !== 'hello')).toMatchObject([
+      { type: 'response', data: 'pong' },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  type TRetryContext,
+  exponentialRetryPolicy,
+  fixedRetryPolicy,
+  resolveRetryPolicy,
+} from './../src/retry';
+
+const createContext = (overrides: Partial<TRetryContext> = {}): TRetryContext => ({
+  namespace: 'test',
+  messageName: 'ping',
+  attempt: 1,
+  reason: 'timeout',
+  error: new Error('failed'),
+  ...overrides,
+});
+
+describe('Retry policies', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fixed policy uses constant delay', () => {
+    const policy = fixedRetryPolicy({ retries: 3, delay: 50 });
+
+    expect(policy.retries).toBe(3);
+    expect(policy.delay(createContext({ attempt: 1 }))).toBe(50);
+    expect(policy.delay(createContext({ attempt: 3 }))).toBe(50);
+  });
+
+  it('retries only timeouts by default', () => {
+    const policy = fixedRetryPolicy({ retries: 1 });
+
+    expect(policy.shouldRetry(createContext({ reason: 'timeout' }))).toBe(true);
+    expect(policy.shouldRetry(createContext({ reason: 'remote' }))).toBe(false);
+  });
+
+  it('supports retryOn modes and predicates', () => {
+    const remoteOnly = fixedRetryPolicy({ retries: 1, retryOn: 'remote' });
+    const any = fixedRetryPolicy({ retries: 1, retryOn: 'any' });
+    const custom = fixedRetryPolicy({
+      retries: 1,
+      retryOn: ({ error }) => error.message === 'retry me',
+    });
+
+    expect(remoteOnly.shouldRetry(createContext({ reason: 'timeout' }))).toBe(false);
+    expect(remoteOnly.shouldRetry(createContext({ reason: 'remote' }))).toBe(true);
+    expect(any.shouldRetry(createContext({ reason: 'timeout' }))).toBe(true);
+    expect(any.shouldRetry(createContext({ reason: 'remote' }))).toBe(true);
+    expect(custom.shouldRetry(createContext({ error: new Error('retry me') }))).toBe(true);
+    expect(custom.shouldRetry(createContext())).toBe(false);
+  });
+
+  it('exponential policy grows delay up to maxDelay', () => {
+    const policy = exponentialRetryPolicy({
+      retries: 5,
+      initialDelay: 100,
+      maxDelay: 300,
+      jitter: false,
+    });
+
+    expect(policy.delay(createContext({ attempt: 1 }))).toBe(100);
+    expect(policy.delay(createContext({ attempt: 2 }))).toBe(200);
+    expect(policy.delay(createContext({ attempt: 3 }))).toBe(300);
+  });
+
+  it('exponential policy applies jitter within half of the delay', () => {
+    const policy = exponentialRetryPolicy({ retries: 1, initialDelay: 100 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(policy.delay(createContext())).toBe(50);
+
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(policy.delay(createContext())).toBe(100);
+  });
+
+  it('resolves numeric config to fixed policy', () => {
+    const policy = resolveRetryPolicy(2);
+
+    expect(policy.retries).toBe(2);
+    expect(policy.delay(createContext())).toBe(0);
+    expect(policy.shouldRetry(createContext({ reason: 'remote' }))).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { type TStandardSchema, validateSchema } from './../src/schema';
+
+const numberSchema: TStandardSchema<unknown, number> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'number' ? { value } : { issues: [{ message: 'Expected number' }] },
+  },
+};
+
+describe('Schema validation', () => {
+  it('validates with Standard Schema', async () => {
+    expect(await validateSchema(numberSchema, 1)).toEqual({ value: 1 });
+    expect(await validateSchema(numberSchema, '1')).toEqual({
+      issues: [{ message: 'Expected number' }],
+    });
+  });
+
+  it('validates with type guards', async () => {
+    const isString = (value: unknown): value is string => typeof value === 'string';
+
+    expect(await validateSchema(isString, 'text')).toEqual({ value: 'text' });
+    expect(await validateSchema(isString, 1)).toEqual({
+      issues: [{ message: 'Value does not match type guard' }],
+    });
+  });
+
+  it('validates with async adapters and keeps parsed value', async () => {
+    const adapter = {
+      validate: async (value: unknown): Promise<{ value: number }> => ({ value: Number(value) }),
+    };
+
+    expect(await validateSchema(adapter, '42')).toEqual({ value: 42 });
+  });
+});
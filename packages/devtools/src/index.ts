@@ -0,0 +1,15 @@
+export { BridgeInspector } from './inspector';
+export type {
+  TFrameDirection,
+  TInspectableBridge,
+  TInspectedFrame,
+  TInspectedRequest,
+  TInspectorOptions,
+  TRequestStatus,
+} from './inspector';
+export { mountInspectorPanel } from './panel';
+export type { TPanelOptions } from './panel';
+export { SESSION_FORMAT_VERSION, SessionRecorder, UNSERIALIZABLE_PAYLOAD } from './session';
+export type { TRecordedFrame, TRecordedSession } from './session';
+export { SessionReplay } from './replay';
+export type { TReplayMismatch, TReplayOptions } from './replay';
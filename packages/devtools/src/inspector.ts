@@ -0,0 +1,263 @@
+import type { TFrameListener, TInternalMessage } from '@tschannel/core';
+
+export type TFrameDirection = Parameters<TFrameListener>[1];
+
+/**
+ * Anything exposing frames like Bridge.onFrame
+ */
+export type TInspectableBridge = {
+  onFrame(listener: TFrameListener): () => void;
+};
+
+export type TInspectedFrame = {
+  /** Increasing number, keeps the order of frames with the same timestamp */
+  seq: number;
+  timestamp: number;
+  /** Label given to attach() */
+  bridge: string;
+  direction: TFrameDirection;
+  frame: TInternalMessage;
+};
+
+/**
+ * - 'pending' - waiting for the answer
+ * - 'success' - response or the end of the stream arrived
+ * - 'error' - answered with an error
+ * - 'timeout' - the caller's timeout passed without an answer
+ * - 'cancelled' - the caller cancelled it
+ */
+export type TRequestStatus = 'pending' | 'success' | 'error' | 'timeout' | 'cancelled';
+
+/**
+ * Request paired with its answer by frame id
+ */
+export type TInspectedRequest = {
+  id: string;
+  bridge: string;
+  /**
+   * - 'outgoing' - sent by the inspected bridge
+   * - 'incoming' - handled by the inspected bridge
+   */
+  direction: 'outgoing' | 'incoming';
+  namespace: string;
+  name: string;
+  isStream: boolean;
+  status: TRequestStatus;
+  startedAt: number;
+  /** Set when the request is settled */
+  endedAt?: number;
+  request: TInternalMessage;
+  /** Response, error or end frame */
+  response?: TInternalMessage;
+  /** Chunks received so far, streams only */
+  chunks: number;
+};
+
+export type TInspectorOptions = {
+  /**
+   * Number of frames and settled requests to keep, older ones are dropped
+   * @default 500
+   */
+  capacity?: number;
+};
+
+const DEFAULT_CAPACITY = 500;
+
+type TTimeout = ReturnType<typeof setTimeout>;
+
+// Frame types answering a request
+const SETTLING_STATUSES: { [TType in TInternalMessage['type']]?: TRequestStatus } = {
+  response: 'success',
+  end: 'success',
+  error: 'error',
+  cancel: 'cancelled',
+};
+
+/**
+ * Records frames of bridges with timestamps and pairs requests with their answers.
+ * Requests with a timeout are marked 'timeout' when it passes, the bridge gives up on them at the same time.
+ *
+ * @example
+ * ```typescript
+ * const inspector = new BridgeInspector();
+ * inspector.attach(bridge, 'host');
+ *
+ * inspector.subscribe(() => {
+ *   console.table(inspector.getPendingRequests());
+ * });
+ * ```
+ */
+export class BridgeInspector {
+  private frames: Array<TInspectedFrame> = [];
+  private requests = new Map<string, TInspectedRequest>();
+  private timers = new Map<string, TTimeout>();
+  private listeners: Array<() => void> = [];
+  private detachers: Array<() => void> = [];
+  private capacity: number;
+  private seq = 0;
+
+  constructor(options: TInspectorOptions = {}) {
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+  }
+
+  /**
+   * Start recording frames of the bridge, returns a function stopping it.
+   * Label tells bridges apart, by default they are numbered.
+   */
+  attach(bridge: TInspectableBridge, label = `bridge ${this.detachers.length + 1}`): () => void {
+    const detach = bridge.onFrame((frame, direction) => {
+      this.record(label, frame, direction);
+    });
+    this.detachers.push(detach);
+
+    return () => {
+      detach();
+      this.detachers = this.detachers.filter((current) => current !== detach);
+    };
+  }
+
+  /**
+   * Recorded frames from the oldest to the newest
+   */
+  getFrames(): ReadonlyArray<TInspectedFrame> {
+    return this.frames.slice();
+  }
+
+  /**
+   * Requests and streams in the order they started
+   */
+  getRequests(): ReadonlyArray<TInspectedRequest> {
+    const requests: Array<TInspectedRequest> = [];
+    this.requests.forEach((request) => {
+      requests.push({ ...request });
+    });
+    return requests;
+  }
+
+  getPendingRequests(): ReadonlyArray<TInspectedRequest> {
+    return this.getRequests().filter((request) => request.status === 'pending');
+  }
+
+  /**
+   * Call listener after every recorded frame and status change, returns a function removing it
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  /**
+   * Forget recorded frames and requests, attached bridges keep being recorded
+   */
+  clear(): void {
+    this.timers.forEach((timer) => {
+      clearTimeout(timer);
+    });
+    this.timers.clear();
+    this.requests.clear();
+    this.frames = [];
+    this.notify();
+  }
+
+  /**
+   * Detach all bridges and drop recorded data
+   */
+  destroy(): void {
+    this.detachers.forEach((detach) => {
+      detach();
+    });
+    this.detachers = [];
+    this.clear();
+    this.listeners = [];
+  }
+
+  private record(bridge: string, frame: TInternalMessage, direction: TFrameDirection): void {
+    const timestamp = Date.now();
+    this.frames.push({ seq: this.seq++, timestamp, bridge, direction, frame });
+    if (this.frames.length > this.capacity) {
+      this.frames.shift();
+    }
+
+    const key = `${bridge}:${frame.id}`;
+    if (frame.type === 'request') {
+      this.startRequest(key, { bridge, direction, frame, timestamp });
+    } else if (frame.type === 'chunk') {
+      const request = this.requests.get(key);
+      if (request) {
+        request.chunks++;
+      }
+    } else if (SETTLING_STATUSES[frame.type]) {
+      this.settleRequest(key, SETTLING_STATUSES[frame.type] as TRequestStatus, frame);
+    }
+
+    this.notify();
+  }
+
+  private startRequest(
+    key: string,
+    { bridge, direction, frame, timestamp }: Omit<TInspectedFrame, 'seq'>
+  ): void {
+    if (frame.type !== 'request') {
+      return;
+    }
+
+    this.requests.set(key, {
+      id: frame.id,
+      bridge,
+      direction: direction === 'sent' ? 'outgoing' : 'incoming',
+      namespace: frame.namespace,
+      name: frame.name,
+      isStream: frame.stream === true,
+      status: 'pending',
+      startedAt: timestamp,
+      request: frame,
+      chunks: 0,
+    });
+    this.dropSettledRequests();
+
+    // Stream timeouts apply between chunks and are not sent
+    if (frame.timeout !== undefined && !frame.stream) {
+      this.timers.set(
+        key,
+        setTimeout(() => {
+          this.settleRequest(key, 'timeout');
+          this.notify();
+        }, frame.timeout)
+      );
+    }
+  }
+
+  private settleRequest(key: string, status: TRequestStatus, frame?: TInternalMessage): void {
+    const request = this.requests.get(key);
+    // Late answers don't change the outcome
+    if (!request || request.status !== 'pending') {
+      return;
+    }
+
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+    request.status = status;
+    request.endedAt = Date.now();
+    if (frame && status !== 'cancelled') {
+      request.response = frame;
+    }
+  }
+
+  private dropSettledRequests(): void {
+    let excess = this.requests.size - this.capacity;
+    this.requests.forEach((request, key) => {
+      if (excess > 0 && request.status !== 'pending') {
+        this.requests.delete(key);
+        excess--;
+      }
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      listener();
+    });
+  }
+}
@@ -0,0 +1,317 @@
+import type { BridgeInspector, TInspectedFrame, TInspectedRequest } from './inspector';
+
+export type TPanelOptions = {
+  /**
+   * Number of newest timeline frames to show
+   * @default 100
+   */
+  maxFrames?: number;
+};
+
+const DEFAULT_MAX_FRAMES = 100;
+const JSON_INDENT = 2;
+const MILLISECOND_DIGITS = 3;
+
+const STYLES = `
+.tschannel-inspector { font: 12px/1.4 monospace; color: #1f2937; }
+.tschannel-inspector h3 { margin: 8px 0 4px; font-size: 13px; }
+.tschannel-inspector input { box-sizing: border-box; width: 100%; font: inherit; }
+.tschannel-inspector table { width: 100%; border-collapse: collapse; }
+.tschannel-inspector td { padding: 2px 6px; border-bottom: 1px solid #e5e7eb; white-space: nowrap; }
+.tschannel-inspector tr[data-request] { cursor: pointer; }
+.tschannel-inspector pre { margin: 0; padding: 4px 6px; background: #f3f4f6; white-space: pre-wrap; }
+.tschannel-inspector .status-pending { color: #2563eb; }
+.tschannel-inspector .status-success { color: #16a34a; }
+.tschannel-inspector .status-error, .tschannel-inspector .status-timeout { color: #dc2626; }
+.tschannel-inspector .status-cancelled { color: #6b7280; }
+`;
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const milliseconds = String(date.getMilliseconds()).padStart(MILLISECOND_DIGITS, '0');
+  return `${date.toLocaleTimeString()}.${milliseconds}`;
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, JSON_INDENT);
+  } catch {
+    return String(value);
+  }
+}
+
+function createRow(document: Document, cells: Array<string>): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  cells.forEach((text) => {
+    const cell = document.createElement('td');
+    cell.textContent = text;
+    row.appendChild(cell);
+  });
+  return row;
+}
+
+// Touch only cells whose text changed
+function updateCells(row: HTMLTableRowElement, cells: Array<string>): void {
+  cells.forEach((text, index) => {
+    const cell = row.cells[index];
+    if (cell.textContent !== text) {
+      cell.textContent = text;
+    }
+  });
+}
+
+/**
+ * Put rows into the table body in the given order, moving only rows that are out of place
+ */
+function syncRows(body: HTMLTableSectionElement, rows: Array<HTMLTableRowElement>): void {
+  rows.forEach((row, index) => {
+    const current = body.rows[index];
+    if (current !== row) {
+      body.insertBefore(row, current ?? null);
+    }
+  });
+  while (body.rows.length > rows.length) {
+    body.deleteRow(rows.length);
+  }
+}
+
+function getFrameTitle({ frame }: TInspectedFrame): string {
+  return frame.name ? `${frame.namespace}:${frame.name}` : frame.namespace;
+}
+
+function getRequestCells(request: TInspectedRequest): Array<string> {
+  const chunks = request.isStream ? ` (${request.chunks} chunks)` : '';
+  return [
+    formatTime(request.startedAt),
+    request.bridge,
+    request.direction === 'outgoing' ? '→' : '←',
+    `${request.namespace}:${request.name}${chunks}`,
+    request.status,
+    `${(request.endedAt ?? Date.now()) - request.startedAt}ms`,
+  ];
+}
+
+function getFrameCells(inspected: TInspectedFrame): Array<string> {
+  return [
+    formatTime(inspected.timestamp),
+    inspected.bridge,
+    inspected.direction === 'sent' ? '→' : '←',
+    inspected.frame.type,
+    getFrameTitle(inspected),
+    inspected.frame.id,
+  ];
+}
+
+/**
+ * Elements are created once, renders update rows of changed requests and add rows of new frames
+ */
+class InspectorPanel {
+  private document: Document;
+  private root: HTMLDivElement;
+  private filterInput: HTMLInputElement;
+  private requestsTitle: HTMLHeadingElement;
+  private requestsBody: HTMLTableSectionElement;
+  private timelineBody: HTMLTableSectionElement;
+  // Rows of shown requests and frames, by request key and frame seq
+  private requestRows = new Map<string, HTMLTableRowElement>();
+  private detailsRows = new Map<string, HTMLTableRowElement>();
+  private frameRows = new Map<number, HTMLTableRowElement>();
+  private expandedRequests: Array<string> = [];
+  private renderTimer: ReturnType<typeof setTimeout> | undefined;
+  private unsubscribe: () => void;
+  private onClick = (event: Event): void => {
+    const row = (event.target as Element).closest('tr[data-request]');
+    const key = row?.getAttribute('data-request');
+    if (key) {
+      this.toggleRequest(key);
+    }
+  };
+  private onFilter = (): void => {
+    this.render();
+  };
+
+  constructor(
+    private inspector: BridgeInspector,
+    private container: HTMLElement,
+    private maxFrames: number
+  ) {
+    this.document = container.ownerDocument;
+    this.root = this.document.createElement('div');
+    this.root.className = 'tschannel-inspector';
+    this.filterInput = this.document.createElement('input');
+    this.filterInput.type = 'search';
+    this.filterInput.placeholder = 'Filter by message';
+    this.requestsTitle = this.document.createElement('h3');
+    this.requestsBody = this.document.createElement('tbody');
+    this.timelineBody = this.document.createElement('tbody');
+    this.mountElements();
+    this.root.addEventListener('click', this.onClick);
+    this.filterInput.addEventListener('input', this.onFilter);
+    container.appendChild(this.root);
+
+    this.unsubscribe = inspector.subscribe(() => {
+      this.scheduleRender();
+    });
+    this.render();
+  }
+
+  destroy(): void {
+    this.unsubscribe();
+    clearTimeout(this.renderTimer);
+    this.root.removeEventListener('click', this.onClick);
+    this.filterInput.removeEventListener('input', this.onFilter);
+    this.container.removeChild(this.root);
+  }
+
+  private mountElements(): void {
+    const style = this.document.createElement('style');
+    style.textContent = STYLES;
+    const timelineTitle = this.document.createElement('h3');
+    timelineTitle.textContent = 'Timeline';
+    const requestsTable = this.document.createElement('table');
+    requestsTable.appendChild(this.requestsBody);
+    const timelineTable = this.document.createElement('table');
+    timelineTable.appendChild(this.timelineBody);
+
+    [
+      style,
+      this.filterInput,
+      this.requestsTitle,
+      requestsTable,
+      timelineTitle,
+      timelineTable,
+    ].forEach((element) => {
+      this.root.appendChild(element);
+    });
+  }
+
+  // Batch updates of frames arriving together
+  private scheduleRender(): void {
+    if (this.renderTimer !== undefined) {
+      return;
+    }
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = undefined;
+      this.render();
+    }, 0);
+  }
+
+  private toggleRequest(key: string): void {
+    const index = this.expandedRequests.indexOf(key);
+    if (index === -1) {
+      this.expandedRequests.push(key);
+    } else {
+      this.expandedRequests.splice(index, 1);
+    }
+    this.render();
+  }
+
+  private isShown(title: string): boolean {
+    const query = this.filterInput.value.trim().toLowerCase();
+    return title.toLowerCase().indexOf(query) !== -1;
+  }
+
+  private render(): void {
+    this.renderRequests();
+    this.renderTimeline();
+  }
+
+  private renderRequests(): void {
+    const requests = this.inspector.getRequests();
+    const countOf = (status: string): number =>
+      requests.filter((request) => request.status === status).length;
+    const counts = `pending: ${countOf('pending')}, timed out: ${countOf('timeout')}`;
+    this.requestsTitle.textContent = `Requests: ${requests.length}, ${counts}`;
+
+    const requestRows = new Map<string, HTMLTableRowElement>();
+    const detailsRows = new Map<string, HTMLTableRowElement>();
+    const rows: Array<HTMLTableRowElement> = [];
+    requests
+      .filter((request) => this.isShown(`${request.namespace}:${request.name}`))
+      .forEach((request) => {
+        const key = `${request.bridge}:${request.id}`;
+        const row = this.renderRequestRow(key, request);
+        requestRows.set(key, row);
+        rows.push(row);
+
+        if (this.expandedRequests.indexOf(key) !== -1) {
+          const details = this.renderDetailsRow(key, request);
+          detailsRows.set(key, details);
+          rows.push(details);
+        }
+      });
+    this.requestRows = requestRows;
+    this.detailsRows = detailsRows;
+    syncRows(this.requestsBody, rows);
+  }
+
+  private renderRequestRow(key: string, request: TInspectedRequest): HTMLTableRowElement {
+    const cells = getRequestCells(request);
+    const row = this.requestRows.get(key);
+    if (!row) {
+      const created = createRow(this.document, cells);
+      created.setAttribute('data-request', key);
+      created.className = `status-${request.status}`;
+      return created;
+    }
+
+    updateCells(row, cells);
+    row.className = `status-${request.status}`;
+    return row;
+  }
+
+  private renderDetailsRow(key: string, request: TInspectedRequest): HTMLTableRowElement {
+    let row = this.detailsRows.get(key);
+    if (!row) {
+      row = this.document.createElement('tr');
+      const cell = row.insertCell();
+      cell.colSpan = getRequestCells(request).length;
+      cell.appendChild(this.document.createElement('pre'));
+    }
+
+    const details = row.cells[0].firstChild as HTMLPreElement;
+    const text = stringify({ request: request.request, response: request.response });
+    if (details.textContent !== text) {
+      details.textContent = text;
+    }
+    return row;
+  }
+
+  // Frames don't change once recorded, rows are only added and removed
+  private renderTimeline(): void {
+    const frameRows = new Map<number, HTMLTableRowElement>();
+    this.inspector
+      .getFrames()
+      .filter((frame) => this.isShown(getFrameTitle(frame)))
+      .slice(-this.maxFrames)
+      .forEach((frame) => {
+        frameRows.set(
+          frame.seq,
+          this.frameRows.get(frame.seq) ?? createRow(this.document, getFrameCells(frame))
+        );
+      });
+    this.frameRows = frameRows;
+    syncRows(this.timelineBody, Array.from(frameRows.values()));
+  }
+}
+
+/**
+ * Render inspector data into the container and keep it updated, returns a function removing the panel.
+ * Click a request to see its request and answer frames, type into the filter field to show only messages
+ * whose `namespace:name` contains the text.
+ *
+ * @example
+ * ```typescript
+ * const unmount = mountInspectorPanel(inspector, document.getElementById('inspector')!);
+ * ```
+ */
+export function mountInspectorPanel(
+  inspector: BridgeInspector,
+  container: HTMLElement,
+  options: TPanelOptions = {}
+): () => void {
+  const panel = new InspectorPanel(inspector, container, options.maxFrames ?? DEFAULT_MAX_FRAMES);
+  return () => {
+    panel.destroy();
+  };
+}
@@ -0,0 +1,347 @@
+import {
+  type IChannel,
+  type TBridgeSide,
+  type TInternalMessage,
+  generateMessageId,
+} from '@tschannel/core';
+import type { TRecordedFrame, TRecordedSession } from './session';
+
+export type TReplayOptions = {
+  /**
+   * - 'instant' - answers and peer messages follow each other without delays, in the recorded order.
+   *   Each peer request waits for the answer of the bridge before the next frame is played.
+   * - 'recorded' - keep the recorded delays, combine it with fake timers
+   * @default 'instant'
+   */
+  timing?: 'instant' | 'recorded';
+};
+
+/**
+ * Difference between the session and the replayed bridge
+ * - 'unexpected-message' - bridge sent a request or event the session doesn't have (or more of them)
+ * - 'missing-message' - recorded request or event the bridge hasn't sent
+ * - 'answer-mismatch' - bridge answered a peer request differently than recorded
+ */
+export type TReplayMismatch = {
+  type: 'unexpected-message' | 'missing-message' | 'answer-mismatch';
+  namespace: string;
+  name: string;
+  expected?: unknown;
+  actual?: unknown;
+};
+
+type TTimeout = ReturnType<typeof setTimeout>;
+
+// Recorded message of the bridge with the frames the peer answered it with
+type TRecordedExchange = {
+  frame: TInternalMessage;
+  offset: number;
+  answers: Array<TRecordedFrame>;
+  isUsed: boolean;
+};
+
+// Peer request being answered by the replayed bridge
+type TPeerRequest = {
+  frame: TInternalMessage;
+  expected: Array<unknown>;
+  actual: Array<unknown>;
+  // False when a recorded answer lost its payload
+  isComparable: boolean;
+  settle(): void;
+};
+
+const ANSWER_TYPES: Array<TInternalMessage['type']> = ['response', 'error', 'chunk', 'end'];
+const FINAL_ANSWER_TYPES: Array<TInternalMessage['type']> = ['response', 'error', 'end'];
+
+// Comparable part of an answer frame, stack traces of errors differ between runs
+function getAnswerSignature(frame: TInternalMessage): unknown {
+  if (frame.type === 'error') {
+    const { name, message, code, data } = (frame.error ?? {}) as { [key: string]: unknown };
+    return { type: frame.type, error: { name, message, code, data } };
+  }
+  return 'data' in frame ? { type: frame.type, data: frame.data } : { type: frame.type };
+}
+
+function isSameAnswer(expected: Array<unknown>, actual: Array<unknown>): boolean {
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+function wait(delay: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, delay);
+  });
+}
+
+/**
+ * Fake peer channel, frames sent by the bridge go to the replay driver
+ */
+class ReplayChannel<TSide extends TBridgeSide> implements IChannel<TSide> {
+  private handler?: (message: TInternalMessage) => void;
+  private isInitialized = false;
+
+  constructor(
+    readonly side: TSide,
+    private onSend: (message: TInternalMessage) => void
+  ) {}
+
+  initialize(): void {
+    this.isInitialized = true;
+  }
+
+  send(message: TInternalMessage): void {
+    if (!this.isInitialized) {
+      throw new Error('ReplayChannel is not ready');
+    }
+    this.onSend(message);
+  }
+
+  onMessage(handler: (message: TInternalMessage) => void): void {
+    this.handler = handler;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  destroy(): void {
+    this.handler = undefined;
+    this.isInitialized = false;
+  }
+
+  deliver(message: TInternalMessage): void {
+    this.handler?.(message);
+  }
+}
+
+/**
+ * Plays a recorded session against a fresh bridge, turning a recorded incident into a deterministic test.
+ * The replay acts as the peer: it answers requests of the bridge with the recorded answers
+ * and sends the requests and events the peer sent during the recording.
+ *
+ * @example
+ * ```typescript
+ * const replay = new SessionReplay<'main'>(session);
+ * const bridge = new Bridge(namespace, replay.channel);
+ * bridge.implement(handlers);
+ *
+ * await replay.play();
+ * await bridge.client.getUserData({ id: '42' }); // answered with the recorded response
+ * expect(replay.getMismatches()).toEqual([]);
+ * ```
+ */
+export class SessionReplay<TSide extends TBridgeSide = TBridgeSide> {
+  /** Pass it to the Bridge under test */
+  readonly channel: IChannel<TSide>;
+  private replayChannel: ReplayChannel<TSide>;
+  private exchanges: Array<TRecordedExchange>;
+  private peerRequests = new Map<string, TPeerRequest>();
+  private answerTimers = new Map<string, Array<TTimeout>>();
+  private mismatches: Array<TReplayMismatch> = [];
+  private timing: 'instant' | 'recorded';
+
+  constructor(
+    private session: TRecordedSession,
+    options: TReplayOptions = {}
+  ) {
+    if (!session.side) {
+      throw new Error('Session has no frames to replay');
+    }
+    this.timing = options.timing ?? 'instant';
+    this.exchanges = session.frames
+      .filter(({ direction, frame }) => direction === 'sent' && isMessageFrame(frame))
+      .map(({ frame, offset }) => ({
+        frame,
+        offset,
+        answers: this.getRecordedAnswers(frame.id, 'received'),
+        isUsed: false,
+      }));
+    this.replayChannel = new ReplayChannel(session.side as TSide, (message) => {
+      this.receive(message);
+    });
+    this.channel = this.replayChannel;
+  }
+
+  /**
+   * Send requests and events of the peer in the recorded order,
+   * resolves when all of them are sent and the bridge answered the requests
+   */
+  async play(): Promise<void> {
+    const peerFrames = this.session.frames.filter(
+      ({ direction, frame }) =>
+        direction === 'received' && (isMessageFrame(frame) || frame.type === 'cancel')
+    );
+
+    let previousOffset = 0;
+    const answers: Array<Promise<void>> = [];
+    for (const { frame, offset } of peerFrames) {
+      await wait(this.timing === 'recorded' ? offset - previousOffset : 0);
+      previousOffset = offset;
+      const answer = this.sendPeerFrame(frame);
+      if (this.timing === 'instant') {
+        await answer;
+      }
+      answers.push(answer);
+    }
+    await Promise.all(answers);
+  }
+
+  /**
+   * Differences found so far, including recorded messages the bridge hasn't sent yet
+   */
+  getMismatches(): Array<TReplayMismatch> {
+    const missing = this.exchanges
+      .filter((exchange) => !exchange.isUsed)
+      .map(
+        ({ frame }): TReplayMismatch => ({
+          type: 'missing-message',
+          namespace: frame.namespace,
+          name: frame.name,
+          expected: 'data' in frame ? frame.data : undefined,
+        })
+      );
+    return this.mismatches.concat(missing);
+  }
+
+  private sendPeerFrame(frame: TInternalMessage): Promise<void> {
+    return new Promise((resolve) => {
+      if (frame.type === 'request') {
+        const answers = this.getRecordedAnswers(frame.id, 'sent');
+        this.peerRequests.set(frame.id, {
+          frame,
+          expected: answers.map(({ frame: answer }) => getAnswerSignature(answer)),
+          actual: [],
+          isComparable: answers.every(({ isUnserializable }) => !isUnserializable),
+          settle: resolve,
+        });
+      } else {
+        // Cancelled peer request is not answered
+        this.peerRequests.get(frame.id)?.settle();
+        this.peerRequests.delete(frame.id);
+        resolve();
+      }
+      this.replayChannel.deliver(frame);
+    });
+  }
+
+  private receive(message: TInternalMessage): void {
+    const peerRequest = this.peerRequests.get(message.id);
+    if (peerRequest && ANSWER_TYPES.indexOf(message.type) !== -1) {
+      this.collectAnswer(peerRequest, message);
+    } else if (message.type === 'hello') {
+      this.acknowledge(message);
+    } else if (message.type === 'cancel') {
+      this.cancelAnswers(message.id);
+    } else if (isMessageFrame(message)) {
+      this.answer(message);
+    }
+  }
+
+  /**
+   * Answer the handshake as the recorded peer did, a session without it gets the versions the bridge offers
+   */
+  private acknowledge(hello: Extract<TInternalMessage, { type: 'hello' | 'ack' }>): void {
+    const recorded = this.session.frames.find(
+      ({ direction, frame }) => direction === 'received' && isHandshakeFrame(frame)
+    );
+    const peerHandshake = recorded && isHandshakeFrame(recorded.frame) ? recorded.frame : hello;
+
+    this.deliverLater(
+      {
+        id: generateMessageId(hello.namespace),
+        namespace: hello.namespace,
+        name: '',
+        sender: this.getPeerSide(),
+        type: 'ack',
+        protocols: peerHandshake.protocols,
+        ...(recorded && peerHandshake.contract && { contract: peerHandshake.contract }),
+      },
+      0
+    );
+  }
+
+  private answer(message: TInternalMessage): void {
+    const exchange = this.exchanges.find(
+      ({ frame, isUsed }) =>
+        !isUsed &&
+        frame.type === message.type &&
+        frame.namespace === message.namespace &&
+        frame.name === message.name
+    );
+    if (!exchange) {
+      this.mismatches.push({
+        type: 'unexpected-message',
+        namespace: message.namespace,
+        name: message.name,
+        actual: 'data' in message ? message.data : undefined,
+      });
+      return;
+    }
+
+    exchange.isUsed = true;
+    let delay = 0;
+    const timers = exchange.answers.map(({ frame, offset }) => {
+      delay = this.timing === 'recorded' ? offset - exchange.offset : delay;
+      // Answer the new frame id, the recorded one belongs to the recording
+      return this.deliverLater({ ...frame, id: message.id }, delay);
+    });
+    this.answerTimers.set(message.id, timers);
+  }
+
+  private collectAnswer(peerRequest: TPeerRequest, message: TInternalMessage): void {
+    peerRequest.actual.push(getAnswerSignature(message));
+    if (FINAL_ANSWER_TYPES.indexOf(message.type) === -1) {
+      return;
+    }
+
+    this.peerRequests.delete(message.id);
+    if (peerRequest.isComparable && !isSameAnswer(peerRequest.expected, peerRequest.actual)) {
+      this.mismatches.push({
+        type: 'answer-mismatch',
+        namespace: peerRequest.frame.namespace,
+        name: peerRequest.frame.name,
+        expected: peerRequest.expected,
+        actual: peerRequest.actual,
+      });
+    }
+    peerRequest.settle();
+  }
+
+  private cancelAnswers(messageId: string): void {
+    (this.answerTimers.get(messageId) ?? []).forEach((timer) => {
+      clearTimeout(timer);
+    });
+    this.answerTimers.delete(messageId);
+  }
+
+  private deliverLater(message: TInternalMessage, delay: number): TTimeout {
+    return setTimeout(() => {
+      this.replayChannel.deliver(message);
+    }, delay);
+  }
+
+  private getRecordedAnswers(
+    messageId: string,
+    direction: TRecordedFrame['direction']
+  ): Array<TRecordedFrame> {
+    return this.session.frames.filter(
+      ({ frame, direction: frameDirection }) =>
+        frameDirection === direction &&
+        frame.id === messageId &&
+        ANSWER_TYPES.indexOf(frame.type) !== -1
+    );
+  }
+
+  private getPeerSide(): TBridgeSide {
+    return this.session.side === 'main' ? 'worker' : 'main';
+  }
+}
+
+function isMessageFrame(frame: TInternalMessage): boolean {
+  return frame.type === 'request' || frame.type === 'event';
+}
+
+function isHandshakeFrame(
+  frame: TInternalMessage
+): frame is Extract<TInternalMessage, { type: 'hello' | 'ack' }> {
+  return frame.type === 'hello' || frame.type === 'ack';
+}
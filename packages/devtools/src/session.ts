@@ -0,0 +1,115 @@
+import type { TBridgeSide, TInternalMessage } from '@tschannel/core';
+import type { TFrameDirection, TInspectableBridge } from './inspector';
+
+/**
+ * Version of the session format, bumped on incompatible changes
+ */
+export const SESSION_FORMAT_VERSION = 1;
+
+export type TRecordedFrame = {
+  /** ms since the recording started */
+  offset: number;
+  direction: TFrameDirection;
+  frame: TInternalMessage;
+  /** Payload couldn't be copied (e.g. circular), it is replaced with UNSERIALIZABLE_PAYLOAD */
+  isUnserializable?: boolean;
+};
+
+/**
+ * Placeholder for payloads that couldn't be recorded
+ */
+export const UNSERIALIZABLE_PAYLOAD = '[Unserializable]';
+
+/**
+ * Traffic of one bridge, save it with JSON.stringify to attach it to bug reports.
+ * Until then payloads keep types of structured-clone channels like Date and Map,
+ * saving needs payloads JSON can represent.
+ */
+export type TRecordedSession = {
+  version: number;
+  /** Side of the recorded bridge, known after its first frame */
+  side?: TBridgeSide;
+  startedAt: number;
+  frames: Array<TRecordedFrame>;
+};
+
+function getOppositeSide(side: TBridgeSide): TBridgeSide {
+  return side === 'main' ? 'worker' : 'main';
+}
+
+/**
+ * Deep copy of the frame, null when its payload can't be copied.
+ * structuredClone keeps Date, Map and Set like structured-clone channels deliver them.
+ */
+function copyFrame(frame: TInternalMessage): TInternalMessage | null {
+  try {
+    return typeof structuredClone === 'function'
+      ? structuredClone(frame)
+      : (JSON.parse(JSON.stringify(frame)) as TInternalMessage);
+  } catch {
+    return null;
+  }
+}
+
+function withoutPayload(frame: TInternalMessage): TInternalMessage {
+  return {
+    ...frame,
+    ...('data' in frame && { data: UNSERIALIZABLE_PAYLOAD }),
+    ...('error' in frame && { error: UNSERIALIZABLE_PAYLOAD }),
+  } as TInternalMessage;
+}
+
+/**
+ * Records every frame of a bridge with its timing and headers into a portable session.
+ * Start it before the bridge connects to include the handshake.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new SessionRecorder(bridge);
+ * // ...reproduce the issue
+ * recorder.stop();
+ * download(JSON.stringify(recorder.getSession()));
+ * ```
+ */
+export class SessionRecorder {
+  private startedAt = Date.now();
+  private side: TBridgeSide | undefined;
+  private frames: Array<TRecordedFrame> = [];
+  private detach: () => void;
+
+  constructor(bridge: TInspectableBridge) {
+    this.detach = bridge.onFrame((frame, direction) => {
+      this.record(frame, direction);
+    });
+  }
+
+  /**
+   * Stop recording, the session keeps frames recorded so far
+   */
+  stop(): void {
+    this.detach();
+  }
+
+  getSession(): TRecordedSession {
+    return {
+      version: SESSION_FORMAT_VERSION,
+      ...(this.side && { side: this.side }),
+      startedAt: this.startedAt,
+      frames: this.frames.slice(),
+    };
+  }
+
+  private record(frame: TInternalMessage, direction: TFrameDirection): void {
+    if (!this.side) {
+      this.side = direction === 'sent' ? frame.sender : getOppositeSide(frame.sender);
+    }
+    // Snapshot: payloads may change after sending
+    const copy = copyFrame(frame);
+    this.frames.push({
+      offset: Date.now() - this.startedAt,
+      direction,
+      frame: copy ?? withoutPayload(frame),
+      ...(!copy && { isUnserializable: true }),
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Bridge, NamespaceBuilder } from '@tschannel/core';
+import { PubSubChannel } from '@tschannel/pubsub-channel';
+import { BridgeInspector } from '../src';
+
+const appNamespace = new NamespaceBuilder('inspected')
+  .mainToWorkerMessage<string, string>()('echo')
+  .mainToWorkerMessage<void, void>()('fail')
+  .mainToWorkerMessage<void, void>()('hang')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .build();
+
+describe('BridgeInspector', () => {
+  let bridgeMain: Bridge<typeof appNamespace, PubSubChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, PubSubChannel<'worker'>>;
+  let inspector: BridgeInspector;
+
+  beforeEach(async () => {
+    const eventBus = new EventTarget();
+    bridgeMain = new Bridge(appNamespace, new PubSubChannel({ side: 'main', eventBus }), {
+      timeout: 30,
+    });
+    bridgeWorker = new Bridge(appNamespace, new PubSubChannel({ side: 'worker', eventBus }));
+    bridgeWorker.implement({
+      echo: (text) => text,
+      fail: () => {
+        throw new Error('Broken');
+      },
+      hang: () => new Promise<void>(() => undefined),
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+      notify: () => undefined,
+    });
+    await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+
+    inspector = new BridgeInspector();
+    inspector.attach(bridgeMain, 'main');
+    inspector.attach(bridgeWorker, 'worker');
+  });
+
+  it('records frames of attached bridges in order', async () => {
+    await bridgeMain.client.echo('hi');
+    await bridgeMain.client.notify('hi');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const frames = inspector.getFrames();
+    expect(
+      frames.map(({ bridge, direction, frame }) => `${bridge}:${direction}:${frame.type}`)
+    ).toEqual([
+      'main:sent:request',
+      'worker:received:request',
+      'worker:sent:response',
+      'main:received:response',
+      'main:sent:event',
+      'worker:received:event',
+    ]);
+    expect(frames.map(({ seq }) => seq)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(frames[0].timestamp).toBeLessThanOrEqual(frames[3].timestamp);
+  });
+
+  it('pairs requests with responses, errors and stream ends', async () => {
+    await bridgeMain.client.echo('hi');
+    await expect(bridgeMain.client.fail()).rejects.toThrow('Broken');
+    for await (const chunk of bridgeMain.client.countTo(2)) {
+      expect(chunk).toBeGreaterThan(0);
+    }
+
+    const outgoing = inspector.getRequests().filter((request) => request.bridge === 'main');
+    expect(outgoing.map(({ name, status }) => `${name}:${status}`)).toEqual([
+      'echo:success',
+      'fail:error',
+      'countTo:success',
+    ]);
+    expect(outgoing[0]).toMatchObject({
+      direction: 'outgoing',
+      namespace: 'inspected',
+      request: { type: 'request', data: 'hi' },
+      response: { type: 'response', data: 'hi', id: outgoing[0].id },
+    });
+    expect(outgoing[0].endedAt).toBeGreaterThanOrEqual(outgoing[0].startedAt);
+    expect(outgoing[2]).toMatchObject({ isStream: true, chunks: 2, response: { type: 'end' } });
+    expect(inspector.getRequests().filter((request) => request.bridge === 'worker')).toHaveLength(
+      3
+    );
+  });
+
+  it('shows pending requests until their timeout passes', async () => {
+    const listener = vi.fn();
+    inspector.subscribe(listener);
+
+    const response = bridgeMain.client.hang();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(inspector.getPendingRequests().map(({ bridge, name }) => `${bridge}:${name}`)).toEqual([
+      'main:hang',
+      'worker:hang',
+    ]);
+
+    await expect(response).rejects.toThrow(Bridge.ERRORS.TIMEOUT('hang'));
+    // Inspector timers start right after the bridge one
+    await vi.waitFor(() => {
+      expect(inspector.getPendingRequests()).toEqual([]);
+    });
+    expect(inspector.getRequests().map(({ status }) => status)).toEqual(['timeout', 'timeout']);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('marks cancelled requests and stops recording detached bridges', async () => {
+    const controller = new AbortController();
+    const response = bridgeMain.dispatch(appNamespace.send.hang(undefined), {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+    await expect(response).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(inspector.getRequests().map(({ status }) => status)).toEqual(['cancelled', 'cancelled']);
+
+    inspector.destroy();
+    await bridgeMain.client.echo('hi');
+    expect(inspector.getFrames()).toEqual([]);
+  });
+
+  it('keeps the newest frames within capacity', async () => {
+    const smallInspector = new BridgeInspector({ capacity: 2 });
+    smallInspector.attach(bridgeMain);
+
+    await bridgeMain.client.echo('a');
+    await bridgeMain.client.echo('b');
+
+    expect(smallInspector.getFrames().map(({ frame }) => frame.type)).toEqual([
+      'request',
+      'response',
+    ]);
+    expect(smallInspector.getFrames()[0].bridge).toBe('bridge 1');
+    expect(smallInspector.getRequests()).toHaveLength(2);
+  });
+});
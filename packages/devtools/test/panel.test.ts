@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { TFrameListener, TInternalMessage } from '@tschannel/core';
+import { BridgeInspector, mountInspectorPanel } from '../src';
+
+function createFrame(id: string, name: string, type: 'request' | 'response'): TInternalMessage {
+  return { id, namespace: 'inspected', name, sender: 'main', type, data: name };
+}
+
+function getCellTexts(table: Element): Array<string> {
+  return Array.from(table.querySelectorAll('tr')).map((row) => row.cells[3]?.textContent ?? '');
+}
+
+describe('mountInspectorPanel', () => {
+  let inspector: BridgeInspector;
+  let emit: TFrameListener;
+  let container: HTMLElement;
+  let unmount: () => void;
+
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+  const getTables = (): NodeListOf<HTMLTableElement> => container.querySelectorAll('table');
+
+  beforeEach(() => {
+    inspector = new BridgeInspector();
+    inspector.attach(
+      {
+        onFrame: (listener) => {
+          emit = listener;
+          return () => undefined;
+        },
+      },
+      'main'
+    );
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    unmount = mountInspectorPanel(inspector, container);
+  });
+
+  afterEach(() => {
+    inspector.destroy();
+    container.remove();
+  });
+
+  it('renders requests and the timeline, updating rows in place', async () => {
+    emit(createFrame('1', 'echo', 'request'), 'sent');
+    await flush();
+    const [requests, timeline] = Array.from(getTables());
+    const requestRow = requests.querySelector('tr[data-request="main:1"]');
+    expect(requestRow?.className).toBe('status-pending');
+    expect(container.querySelector('h3')?.textContent).toBe(
+      'Requests: 1, pending: 1, timed out: 0'
+    );
+
+    emit(createFrame('1', 'echo', 'response'), 'received');
+    await flush();
+
+    expect(requests.querySelector('tr[data-request="main:1"]')).toBe(requestRow);
+    expect(requestRow?.className).toBe('status-success');
+    expect(getCellTexts(timeline)).toEqual(['request', 'response']);
+    expect(container.querySelectorAll('style')).toHaveLength(1);
+
+    (requestRow as HTMLTableRowElement).click();
+    expect(requests.querySelector('pre')?.textContent).toContain('"type": "response"');
+  });
+
+  it('shows only messages matching the filter', async () => {
+    emit(createFrame('1', 'echo', 'request'), 'sent');
+    emit(createFrame('2', 'fail', 'request'), 'sent');
+    await flush();
+    const [requests, timeline] = Array.from(getTables());
+
+    const filter = container.querySelector('input') as HTMLInputElement;
+    filter.value = 'FAIL';
+    filter.dispatchEvent(new Event('input'));
+
+    expect(getCellTexts(requests)).toEqual(['inspected:fail']);
+    expect(
+      Array.from(timeline.querySelectorAll('tr')).map((row) => row.cells[4].textContent)
+    ).toEqual(['inspected:fail']);
+
+    filter.value = '';
+    filter.dispatchEvent(new Event('input'));
+    expect(getCellTexts(requests)).toEqual(['inspected:echo', 'inspected:fail']);
+  });
+
+  it('removes the panel and stops updating it on unmount', async () => {
+    emit(createFrame('1', 'echo', 'request'), 'sent');
+    await flush();
+    const root = container.firstElementChild as HTMLElement;
+
+    unmount();
+    emit(createFrame('2', 'echo', 'request'), 'sent');
+    await flush();
+
+    expect(container.childElementCount).toBe(0);
+    expect(root.querySelectorAll('tr[data-request]')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Bridge, NamespaceBuilder } from '@tschannel/core';
+import { PubSubChannel } from '@tschannel/pubsub-channel';
+import {
+  SessionRecorder,
+  SessionReplay,
+  type TRecordedSession,
+  UNSERIALIZABLE_PAYLOAD,
+} from '../src';
+
+const appNamespace = new NamespaceBuilder('recorded')
+  .mainToWorkerMessage<{ id: string }, { name: string }>()('getUser')
+  .mainToWorkerStream<number, number>()('countTo')
+  .workerToMainMessage<string, string>()('echo')
+  .workerToMainEvent<string>()('notify')
+  .build();
+
+type TMainBridge = Bridge<typeof appNamespace, PubSubChannel<'main'>>;
+
+const collect = async <T>(stream: AsyncIterable<T>): Promise<Array<T>> => {
+  const chunks: Array<T> = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+const implementMain = (
+  bridge: Pick<TMainBridge, 'implement'>,
+  notifications: Array<string>
+): void => {
+  bridge.implement({
+    echo: (text) => `main: ${text}`,
+    notify: (text) => {
+      notifications.push(text);
+    },
+  });
+};
+
+// Real traffic of the main bridge, saved as JSON the way a bug report would carry it
+async function recordSession(): Promise<TRecordedSession> {
+  const eventBus = new EventTarget();
+  const bridgeMain: TMainBridge = new Bridge(
+    appNamespace,
+    new PubSubChannel({ side: 'main', eventBus })
+  );
+  const bridgeWorker = new Bridge(appNamespace, new PubSubChannel({ side: 'worker', eventBus }));
+  const recorder = new SessionRecorder(bridgeMain);
+  implementMain(bridgeMain, []);
+  bridgeWorker.implement({
+    getUser: ({ id }) => ({ name: `user ${id}` }),
+    countTo: async function* (limit) {
+      for (let value = 1; value <= limit; value++) {
+        yield value;
+      }
+    },
+  });
+  await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+
+  await bridgeWorker.emit(appNamespace.send.notify('started'));
+  await bridgeWorker.dispatch(appNamespace.send.echo('hi'), { headers: { locale: 'de' } });
+  await bridgeMain.client.getUser({ id: '7' });
+  await collect(bridgeMain.client.countTo(3));
+  recorder.stop();
+
+  return JSON.parse(JSON.stringify(recorder.getSession())) as TRecordedSession;
+}
+
+describe('Session record and replay', () => {
+  let session: TRecordedSession;
+
+  beforeAll(async () => {
+    session = await recordSession();
+  });
+
+  it('records frames of the bridge with timing and headers', () => {
+    expect(session).toMatchObject({ version: 1, side: 'main' });
+    expect(
+      session.frames
+        .filter(({ frame }) => frame.type !== 'hello' && frame.type !== 'ack')
+        .map(({ direction, frame }) => `${direction}:${frame.type}:${frame.name}`)
+    ).toEqual([
+      'received:event:notify',
+      'received:request:echo',
+      'sent:response:',
+      'sent:request:getUser',
+      'received:response:',
+      'sent:request:countTo',
+      'received:chunk:countTo',
+      'received:chunk:countTo',
+      'received:chunk:countTo',
+      'received:end:countTo',
+    ]);
+    const echoRequest = session.frames.find(({ frame }) => frame.name === 'echo');
+    expect(echoRequest?.frame.headers).toEqual({ locale: 'de' });
+    expect(session.frames.every(({ offset }) => offset >= 0)).toBe(true);
+  });
+
+  it('replays peer messages and answers requests of a fresh bridge', async () => {
+    const replay = new SessionReplay<'main'>(session);
+    const bridge = new Bridge(appNamespace, replay.channel, { timeout: 100 });
+    const notifications: Array<string> = [];
+    implementMain(bridge, notifications);
+
+    await replay.play();
+
+    expect(notifications).toEqual(['started']);
+    await expect(bridge.client.getUser({ id: '7' })).resolves.toEqual({ name: 'user 7' });
+    await expect(collect(bridge.client.countTo(3))).resolves.toEqual([1, 2, 3]);
+    expect(replay.getMismatches()).toEqual([]);
+  });
+
+  it('reports changed answers, unexpected and missing messages', async () => {
+    const replay = new SessionReplay<'main'>(session);
+    const bridge = new Bridge(appNamespace, replay.channel, { timeout: 20 });
+    bridge.implement({
+      echo: (text) => `changed: ${text}`,
+      notify: () => undefined,
+    });
+
+    await replay.play();
+    await bridge.client.getUser({ id: '7' });
+    await expect(bridge.client.getUser({ id: '8' })).rejects.toThrow(
+      Bridge.ERRORS.TIMEOUT('getUser')
+    );
+
+    expect(replay.getMismatches()).toEqual([
+      {
+        type: 'answer-mismatch',
+        namespace: 'recorded',
+        name: 'echo',
+        expected: [{ type: 'response', data: 'main: hi' }],
+        actual: [{ type: 'response', data: 'changed: hi' }],
+      },
+      { type: 'unexpected-message', namespace: 'recorded', name: 'getUser', actual: { id: '8' } },
+      { type: 'missing-message', namespace: 'recorded', name: 'countTo', expected: 3 },
+    ]);
+  });
+
+  it('keeps payload types and marks payloads that cannot be copied', async () => {
+    const reportNamespace = new NamespaceBuilder('reports')
+      .mainToWorkerEvent<unknown>()('report')
+      .build();
+    const eventBus = new EventTarget();
+    const bridgeMain = new Bridge(reportNamespace, new PubSubChannel({ side: 'main', eventBus }));
+    const bridgeWorker = new Bridge(
+      reportNamespace,
+      new PubSubChannel({ side: 'worker', eventBus })
+    );
+    const received: Array<unknown> = [];
+    bridgeWorker.implement({ report: (payload) => void received.push(payload) });
+    await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+    const recorder = new SessionRecorder(bridgeMain);
+
+    const circular: { [key: string]: unknown } = { name: 'loop' };
+    circular.self = circular;
+    await bridgeMain.client.report({ at: new Date(0), tags: new Set(['a']), circular });
+    await bridgeMain.client.report({ callback: () => undefined });
+
+    const [copied, lost] = recorder.getSession().frames;
+    expect(copied.frame).toMatchObject({
+      data: { at: new Date(0), tags: new Set(['a']), circular: { name: 'loop' } },
+    });
+    expect(copied.isUnserializable).toBeUndefined();
+    expect(lost).toMatchObject({
+      isUnserializable: true,
+      frame: { type: 'event', name: 'report', data: UNSERIALIZABLE_PAYLOAD },
+    });
+    // Recording doesn't break the bridge
+    expect(received).toHaveLength(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, vi } from 'vitest';
+import { describeChannelConformance } from '@tschannel/testing/conformance';
+import { IframeChannel } from '../src';
+
+const ORIGIN = 'https://app.test';
+
+// Parent and iframe share one window here, both channels listen on it like a shared bus
+function createFakeWindow(): Window {
+  const fakeWindow = Object.assign(new EventTarget(), {
+    parent: undefined as unknown,
+    postMessage: (data: unknown): void => {
+      setTimeout(() => {
+        fakeWindow.dispatchEvent(new MessageEvent('message', { data, origin: ORIGIN }));
+      }, 0);
+    },
+  });
+  fakeWindow.parent = fakeWindow;
+  return fakeWindow as unknown as Window;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describeChannelConformance('IframeChannel', ({ serializer }) => {
+  const fakeWindow = createFakeWindow();
+  vi.stubGlobal('window', fakeWindow);
+  const iframe = { contentWindow: fakeWindow } as HTMLIFrameElement;
+  return [
+    new IframeChannel({ side: 'main', iframe, serializer, expectedOrigin: ORIGIN }),
+    new IframeChannel({ side: 'worker', serializer, expectedOrigin: ORIGIN }),
+  ];
+});
@@ -0,0 +1,65 @@
+import type { THeaders, TMiddlewareContext } from '@tschannel/core';
+
+/**
+ * - 'outgoing' - message sent by this bridge: dispatch(), emit() and the client
+ * - 'incoming' - message handled by this bridge
+ */
+export type TLogDirection = 'outgoing' | 'incoming';
+
+/**
+ * - 'request' - request or event passed the logger
+ * - 'response' - response received (outgoing) or sent (incoming), for streams after the last chunk
+ * - 'error' - message failed, including remote errors
+ * - 'timeout' - no answer in time (outgoing only)
+ * - 'cancel' - call cancelled with AbortSignal or by the caller, or stream the consumer stopped reading
+ */
+export type TLogStage = 'request' | 'response' | 'error' | 'timeout' | 'cancel';
+
+export type TLogEntry = {
+  timestamp: number;
+  /** TLoggerOptions.label, tells apart bridges writing to the same sink */
+  label?: string;
+  direction: TLogDirection;
+  stage: TLogStage;
+  /** Message id, the same in entries of both sides */
+  id: string;
+  namespace: string;
+  name: string;
+  kind: TMiddlewareContext['kind'];
+  /** Redacted request on 'request', redacted response on 'response', omitted for streams and errors */
+  payload?: unknown;
+  /** Redacted request headers on 'request', response headers on 'response' */
+  headers?: THeaders;
+  /** ms since the request entry */
+  duration?: number;
+  /** Number of chunks, streams only */
+  chunks?: number;
+  error?: Error;
+};
+
+/**
+ * Short human readable line, e.g. `[Main] → demo:getUserData request #k2j4h1x9a`
+ */
+export function formatLogEntry(entry: TLogEntry): string {
+  // Request travels away from the outgoing side, everything else travels back
+  const isSent = (entry.direction === 'outgoing') === (entry.stage === 'request');
+  const parts = [
+    isSent ? '→' : '←',
+    `${entry.namespace}:${entry.name}`,
+    entry.stage,
+    `#${entry.id.slice(entry.id.lastIndexOf('_') + 1)}`,
+  ];
+  if (entry.label) {
+    parts.unshift(`[${entry.label}]`);
+  }
+  if (entry.chunks !== undefined) {
+    parts.push(`${entry.chunks} chunks`);
+  }
+  if (entry.duration !== undefined) {
+    parts.push(`(${entry.duration}ms)`);
+  }
+  if (entry.error) {
+    parts.push(entry.error.message);
+  }
+  return parts.join(' ');
+}
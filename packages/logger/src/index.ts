@@ -0,0 +1,8 @@
+export { createLoggerMiddleware } from './logger';
+export type { TLoggerOptions } from './logger';
+export { formatLogEntry } from './entry';
+export type { TLogDirection, TLogEntry, TLogStage } from './entry';
+export { REDACTED, redact } from './redact';
+export type { TRedactRule } from './redact';
+export { CallbackSink, ConsoleSink, RingBufferSink } from './sinks';
+export type { ILogSink, TConsoleSinkOptions } from './sinks';
@@ -0,0 +1,151 @@
+import {
+  type TErrorOutcome,
+  type TErrorReporter,
+  type TMiddleware,
+  type TMiddlewareContext,
+  getErrorOutcome,
+} from '@tschannel/core';
+import type { TLogEntry, TLogStage } from './entry';
+import { REDACTED, type TRedactRule, redact } from './redact';
+import type { ILogSink } from './sinks';
+
+export type TLoggerOptions = {
+  sinks: Array<ILogSink>;
+  /** Added to every entry, e.g. the side of the bridge */
+  label?: string;
+  /** Fields replaced in payloads and headers before they reach sinks */
+  redact?: Array<TRedactRule>;
+  /** @default '[REDACTED]' */
+  redactedValue?: unknown;
+  /**
+   * Share of messages to log, from 0 to 1. Decided once per message, so a logged message has all its entries.
+   * Each side decides on its own.
+   * @default 1
+   */
+  sampleRate?: number;
+  /** Skip messages, checked before sampling */
+  shouldLog?(ctx: TMiddlewareContext): boolean;
+  /**
+   * Receives errors thrown by sinks, the logged message and the other sinks are not affected by them
+   * @default rethrows the error asynchronously, like Bridge does
+   */
+  reportError?: TErrorReporter;
+};
+
+function rethrowAsync(error: unknown): void {
+  setTimeout(() => {
+    throw error;
+  }, 0);
+}
+
+const ERROR_STAGES: { [TOutcome in TErrorOutcome]: TLogStage } = {
+  remoteError: 'error',
+  timeout: 'timeout',
+  cancel: 'cancel',
+  error: 'error',
+};
+
+/**
+ * Stream response is logged after the last chunk, or as cancelled when the consumer stops reading.
+ * A stream that is never read has only its request entry.
+ */
+async function* logStream(
+  source: AsyncIterable<unknown>,
+  finish: (fields: Partial<TLogEntry>) => void
+): AsyncIterableIterator<unknown> {
+  let chunks = 0;
+  let isFinished = false;
+  try {
+    for await (const chunk of source) {
+      chunks++;
+      yield chunk;
+    }
+    isFinished = true;
+    finish({ stage: 'response', chunks });
+  } catch (error) {
+    isFinished = true;
+    finish({ stage: 'error', chunks, error: error as Error });
+    throw error;
+  } finally {
+    // Consumer stopped reading before the end
+    if (!isFinished) {
+      finish({ stage: 'cancel', chunks });
+    }
+  }
+}
+
+/**
+ * Middleware logging requests, responses, errors and timeouts of messages on both bridge sides.
+ * Register it last to log payloads as they are sent and handled, first to log them as your code passes them.
+ *
+ * @example
+ * ```typescript
+ * const history = new RingBufferSink(100);
+ * bridge.use(
+ *   createLoggerMiddleware({
+ *     sinks: [new ConsoleSink(), history],
+ *     label: 'Main',
+ *     redact: ['password', 'session.token', /secret/i],
+ *     sampleRate: 0.1,
+ *   })
+ * );
+ * ```
+ */
+export function createLoggerMiddleware(options: TLoggerOptions): TMiddleware {
+  const { sinks, label, sampleRate = 1, reportError = rethrowAsync } = options;
+  const rules = options.redact ?? [];
+  const redactedValue = 'redactedValue' in options ? options.redactedValue : REDACTED;
+
+  const write = (ctx: TMiddlewareContext, fields: Partial<TLogEntry>): void => {
+    const entry: TLogEntry = {
+      timestamp: Date.now(),
+      ...(label !== undefined && { label }),
+      direction: ctx.pipeline === 'dispatch' ? 'outgoing' : 'incoming',
+      stage: 'request',
+      id: ctx.id,
+      namespace: ctx.namespace,
+      name: ctx.name,
+      kind: ctx.kind,
+      ...fields,
+    };
+    if ('payload' in entry) {
+      entry.payload = redact(entry.payload, rules, redactedValue);
+    }
+    if (entry.headers) {
+      entry.headers = redact(entry.headers, rules, redactedValue) as TLogEntry['headers'];
+    }
+    sinks.forEach((sink) => {
+      // Logging must never change what happens to the message
+      try {
+        sink.write(entry);
+      } catch (error) {
+        reportError(error);
+      }
+    });
+  };
+
+  return async (ctx, next) => {
+    if ((options.shouldLog && !options.shouldLog(ctx)) || Math.random() >= sampleRate) {
+      return next();
+    }
+
+    const startedAt = Date.now();
+    write(ctx, { payload: ctx.request, headers: { ...ctx.headers } });
+    const finish = (fields: Partial<TLogEntry>): void => {
+      write(ctx, { ...fields, duration: Date.now() - startedAt });
+    };
+
+    try {
+      await next();
+    } catch (error) {
+      finish({ stage: ERROR_STAGES[getErrorOutcome(error)], error: error as Error });
+      throw error;
+    }
+
+    if (ctx.kind === 'stream') {
+      ctx.response = logStream(ctx.response as AsyncIterable<unknown>, finish);
+    } else if (ctx.kind !== 'event') {
+      finish({ stage: 'response', payload: ctx.response, headers: { ...ctx.responseHeaders } });
+    }
+  };
+}
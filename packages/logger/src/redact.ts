@@ -0,0 +1,75 @@
+/**
+ * Field redaction rule
+ * - `'password'` - key on any depth
+ * - `'user.token'` - path from the payload root, `*` matches any key or array index
+ * - `/secret/i` - keys matching the expression on any depth
+ */
+export type TRedactRule = string | RegExp;
+
+export const REDACTED = '[REDACTED]';
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
+
+function matchesRule(rule: TRedactRule, path: ReadonlyArray<string>): boolean {
+  const key = path[path.length - 1];
+  if (typeof rule !== 'string') {
+    return rule.test(key);
+  }
+  if (rule.indexOf('.') === -1) {
+    return rule === key;
+  }
+
+  const segments = rule.split('.');
+  return (
+    segments.length === path.length &&
+    segments.every((segment, index) => segment === '*' || segment === path[index])
+  );
+}
+
+/**
+ * Copy of the value with matching fields replaced, the value itself is not changed.
+ * Only plain objects and arrays are traversed, class instances are kept as they are.
+ */
+export function redact(
+  value: unknown,
+  rules: ReadonlyArray<TRedactRule>,
+  replacement: unknown = REDACTED
+): unknown {
+  if (rules.length === 0) {
+    return value;
+  }
+
+  const ancestors: Array<unknown> = [];
+  const visit = (current: unknown, path: Array<string>): unknown => {
+    if (!Array.isArray(current) && !isPlainObject(current)) {
+      return current;
+    }
+    if (ancestors.indexOf(current) !== -1) {
+      return '[Circular]';
+    }
+
+    ancestors.push(current);
+    const visitChild = (child: unknown, key: string): unknown => {
+      const childPath = path.concat(key);
+      return rules.some((rule) => matchesRule(rule, childPath))
+        ? replacement
+        : visit(child, childPath);
+    };
+    const copy = Array.isArray(current)
+      ? current.map((item: unknown, index) => visitChild(item, String(index)))
+      : Object.keys(current).reduce<{ [key: string]: unknown }>((result, key) => {
+          result[key] = visitChild(current[key], key);
+          return result;
+        }, {});
+    ancestors.pop();
+    return copy;
+  };
+
+  return visit(value, []);
+}
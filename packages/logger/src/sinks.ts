@@ -0,0 +1,102 @@
+import { type TLogEntry, formatLogEntry } from './entry';
+
+/**
+ * Receives every logged entry, implement it to forward entries to your logging service
+ */
+export interface ILogSink {
+  write(entry: TLogEntry): void;
+}
+
+export type TConsoleSinkOptions = {
+  /** @default globalThis.console */
+  console?: Pick<Console, 'log' | 'warn' | 'error'>;
+  /**
+   * Color lines with `%c` CSS, supported by browser devtools
+   * @default true
+   */
+  isColored?: boolean;
+};
+
+const STAGE_COLORS: { [TStage in TLogEntry['stage']]: string } = {
+  request: '#2563eb',
+  response: '#16a34a',
+  error: '#dc2626',
+  timeout: '#d97706',
+  cancel: '#6b7280',
+};
+
+/**
+ * Pretty prints entries, errors with console.error and timeouts with console.warn
+ */
+export class ConsoleSink implements ILogSink {
+  private console: Pick<Console, 'log' | 'warn' | 'error'>;
+  private isColored: boolean;
+
+  constructor(options: TConsoleSinkOptions = {}) {
+    this.console = options.console ?? console;
+    this.isColored = options.isColored ?? true;
+  }
+
+  write(entry: TLogEntry): void {
+    const line = formatLogEntry(entry);
+    const details: Array<unknown> = [];
+    if ('payload' in entry) {
+      details.push(entry.payload);
+    }
+    if (entry.headers && Object.keys(entry.headers).length > 0) {
+      details.push(entry.headers);
+    }
+    if (entry.error) {
+      details.push(entry.error);
+    }
+
+    const args = this.isColored
+      ? [`%c${line}`, `color: ${STAGE_COLORS[entry.stage]}`, ...details]
+      : [line, ...details];
+    if (entry.stage === 'error') {
+      this.console.error(...args);
+    } else if (entry.stage === 'timeout') {
+      this.console.warn(...args);
+    } else {
+      this.console.log(...args);
+    }
+  }
+}
+
+/**
+ * Keeps the last `capacity` entries in memory, for debugging panels and tests
+ */
+export class RingBufferSink implements ILogSink {
+  private entries: Array<TLogEntry> = [];
+
+  constructor(private capacity: number) {}
+
+  write(entry: TLogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Entries from the oldest to the newest
+   */
+  getEntries(): ReadonlyArray<TLogEntry> {
+    return this.entries.slice();
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Passes entries to a function
+ */
+export class CallbackSink implements ILogSink {
+  constructor(private callback: (entry: TLogEntry) => void) {}
+
+  write(entry: TLogEntry): void {
+    this.callback(entry);
+  }
+}
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Bridge, NamespaceBuilder } from '@tschannel/core';
+import { PubSubChannel } from '@tschannel/pubsub-channel';
+import {
+  CallbackSink,
+  ConsoleSink,
+  RingBufferSink,
+  type TLogEntry,
+  createLoggerMiddleware,
+  formatLogEntry,
+  redact,
+} from '../src';
+
+const appNamespace = new NamespaceBuilder('logged')
+  .mainToWorkerMessage<{ login: string; password: string }, { token: string }>()('signIn')
+  .mainToWorkerMessage<void, void>()('fail')
+  .mainToWorkerMessage<void, void>()('hang')
+  .mainToWorkerStream<number, number>()('countTo')
+  .mainToWorkerEvent<string>()('notify')
+  .build();
+
+const describeEntry = ({ label, direction, stage, name }: TLogEntry): string =>
+  `${label}:${direction}:${stage}:${name}`;
+
+describe('redact', () => {
+  it('replaces keys, paths and matching keys without changing the value', () => {
+    const payload = {
+      password: 'p',
+      user: { password: 'p', token: 't', name: 'n' },
+      sessions: [{ token: 't' }, { token: 't' }],
+      apiSecret: 's',
+    };
+
+    expect(redact(payload, ['password', 'sessions.*.token', /secret/i])).toEqual({
+      password: '[REDACTED]',
+      user: { password: '[REDACTED]', token: 't', name: 'n' },
+      sessions: [{ token: '[REDACTED]' }, { token: '[REDACTED]' }],
+      apiSecret: '[REDACTED]',
+    });
+    expect(payload.user.password).toBe('p');
+  });
+
+  it('keeps primitives and class instances and marks circular references', () => {
+    const date = new Date(0);
+    const circular: { [key: string]: unknown } = { date };
+    circular.self = circular;
+
+    expect(redact('password', ['password'])).toBe('password');
+    expect(redact(circular, ['token'])).toEqual({ date, self: '[Circular]' });
+  });
+});
+
+describe('createLoggerMiddleware', () => {
+  let bridgeMain: Bridge<typeof appNamespace, PubSubChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, PubSubChannel<'worker'>>;
+  let history: RingBufferSink;
+
+  beforeEach(async () => {
+    const eventBus = new EventTarget();
+    bridgeMain = new Bridge(appNamespace, new PubSubChannel({ side: 'main', eventBus }), {
+      timeout: 50,
+    });
+    bridgeWorker = new Bridge(appNamespace, new PubSubChannel({ side: 'worker', eventBus }));
+    history = new RingBufferSink(100);
+    bridgeMain.use(createLoggerMiddleware({ sinks: [history], label: 'main', redact: ['token'] }));
+    bridgeWorker.use(
+      createLoggerMiddleware({ sinks: [history], label: 'worker', redact: ['password'] })
+    );
+
+    bridgeWorker.implement({
+      signIn: ({ login }) => ({ token: `token of ${login}` }),
+      fail: () => {
+        throw new Error('Broken');
+      },
+      hang: () => new Promise<void>(() => undefined),
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+      notify: () => undefined,
+    });
+    await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+  });
+
+  it('logs requests and responses of both sides with one message id', async () => {
+    await bridgeMain.client.signIn({ login: 'ann', password: 'secret' });
+
+    const entries = history.getEntries();
+    expect(entries.map(describeEntry)).toEqual([
+      'main:outgoing:request:signIn',
+      'worker:incoming:request:signIn',
+      'worker:incoming:response:signIn',
+      'main:outgoing:response:signIn',
+    ]);
+    expect(new Set(entries.map((entry) => entry.id)).size).toBe(1);
+    expect(entries[0].payload).toEqual({ login: 'ann', password: 'secret' });
+    expect(entries[1].payload).toEqual({ login: 'ann', password: '[REDACTED]' });
+    expect(entries[3]).toMatchObject({
+      namespace: 'logged',
+      kind: 'request',
+      payload: { token: '[REDACTED]' },
+      duration: expect.any(Number),
+    });
+  });
+
+  it('logs errors, timeouts, stream ends and events', async () => {
+    await expect(bridgeMain.client.fail()).rejects.toThrow('Broken');
+    await expect(bridgeMain.client.hang()).rejects.toThrow(Bridge.ERRORS.TIMEOUT('hang'));
+    for await (const chunk of bridgeMain.client.countTo(2)) {
+      expect(chunk).toBeGreaterThan(0);
+    }
+    await bridgeMain.client.notify('hi');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const finished = history
+      .getEntries()
+      .filter((entry) => entry.label === 'main' && entry.stage !== 'request');
+    expect(finished.map(describeEntry)).toEqual([
+      'main:outgoing:error:fail',
+      'main:outgoing:timeout:hang',
+      'main:outgoing:response:countTo',
+    ]);
+    expect(finished[0].error?.message).toBe('Broken');
+    expect(finished[2].chunks).toBe(2);
+    expect(history.getEntries().filter((entry) => entry.name === 'notify')).toHaveLength(2);
+  });
+
+  it('logs aborted calls as cancelled', async () => {
+    const controller = new AbortController();
+    const response = bridgeMain.client.hang(undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(response).rejects.toThrow(Bridge.ERRORS.ABORTED('hang'));
+
+    const finished = history
+      .getEntries()
+      .filter((entry) => entry.label === 'main' && entry.stage !== 'request');
+    expect(finished.map(describeEntry)).toEqual(['main:outgoing:cancel:hang']);
+  });
+
+  it('logs streams the consumer stops reading as cancelled', async () => {
+    for await (const chunk of bridgeMain.client.countTo(3)) {
+      if (chunk === 1) {
+        break;
+      }
+    }
+
+    const [cancelled] = history
+      .getEntries()
+      .filter((entry) => entry.label === 'main' && entry.stage !== 'request');
+    expect(describeEntry(cancelled)).toBe('main:outgoing:cancel:countTo');
+    expect(cancelled.chunks).toBe(1);
+  });
+
+  it('reports errors of sinks without breaking messages or other sinks', async () => {
+    const reportError = vi.fn();
+    const entries: Array<TLogEntry> = [];
+    bridgeMain.use(
+      createLoggerMiddleware({
+        sinks: [
+          new CallbackSink(() => {
+            throw new Error('Broken sink');
+          }),
+          new CallbackSink((entry) => entries.push(entry)),
+        ],
+        reportError,
+      })
+    );
+
+    await expect(bridgeMain.client.signIn({ login: 'ann', password: 'p' })).resolves.toEqual({
+      token: 'token of ann',
+    });
+
+    expect(entries.map(({ stage }) => stage)).toEqual(['request', 'response']);
+    expect(reportError).toHaveBeenCalledTimes(2);
+  });
+
+  it('samples and filters whole messages', async () => {
+    const entries: Array<TLogEntry> = [];
+    const bridge = new Bridge(
+      appNamespace,
+      new PubSubChannel({ side: 'main', eventBus: new EventTarget() })
+    );
+    bridge.use(
+      createLoggerMiddleware({
+        sinks: [new CallbackSink((entry) => entries.push(entry))],
+        shouldLog: (ctx) => ctx.name !== 'fail',
+      })
+    );
+    bridge.use(createLoggerMiddleware({ sinks: [history], sampleRate: 0 }));
+    // Answer locally, there is no other side
+    bridge.use(() => undefined);
+
+    await bridge.client.fail();
+    await bridge.client.notify('hi');
+    history.clear();
+    await bridge.client.notify('hi');
+
+    expect(entries.map(({ name, stage }) => `${name}:${stage}`)).toEqual([
+      'notify:request',
+      'notify:request',
+    ]);
+    expect(history.getEntries()).toEqual([]);
+  });
+});
+
+describe('sinks', () => {
+  const entry: TLogEntry = {
+    timestamp: 0,
+    label: 'Main',
+    direction: 'outgoing',
+    stage: 'response',
+    id: 'logged_1700000000000_k2j4h1x9a',
+    namespace: 'logged',
+    name: 'signIn',
+    kind: 'request',
+    payload: { token: '[REDACTED]' },
+    headers: {},
+    duration: 12,
+  };
+
+  it('formats entries as one line', () => {
+    expect(formatLogEntry(entry)).toBe('[Main] ← logged:signIn response #k2j4h1x9a (12ms)');
+    expect(formatLogEntry({ ...entry, direction: 'incoming', label: undefined })).toBe(
+      '→ logged:signIn response #k2j4h1x9a (12ms)'
+    );
+  });
+
+  it('prints errors and timeouts with matching console methods', () => {
+    const output = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const sink = new ConsoleSink({ console: output, isColored: false });
+    const error = new Error('Broken');
+
+    sink.write(entry);
+    sink.write({ ...entry, stage: 'timeout', payload: undefined });
+    sink.write({ ...entry, stage: 'error', error });
+
+    expect(output.log).toHaveBeenCalledWith(formatLogEntry(entry), entry.payload);
+    expect(output.warn).toHaveBeenCalledTimes(1);
+    expect(output.error).toHaveBeenCalledWith(
+      expect.stringContaining('Broken'),
+      entry.payload,
+      error
+    );
+  });
+
+  it('keeps the last entries in the ring buffer', () => {
+    const sink = new RingBufferSink(2);
+    ['a', 'b', 'c'].forEach((name) => {
+      sink.write({ ...entry, name });
+    });
+
+    expect(sink.getEntries().map(({ name }) => name)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,10 @@
+import { describeChannelConformance } from '@tschannel/testing/conformance';
+import { PubSubChannel } from '../src';
+
+describeChannelConformance('PubSubChannel', ({ serializer }) => {
+  const eventBus = new EventTarget();
+  return [
+    new PubSubChannel({ side: 'main', serializer, eventBus }),
+    new PubSubChannel({ side: 'worker', serializer, eventBus }),
+  ];
+});
@@ -0,0 +1,12 @@
+import { createRollupConfig } from '../../configs/rollup.config.shared.js';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// The conformance suite imports vitest, so it has its own entry and the main one works without vitest
+export default [
+  createRollupConfig(__dirname),
+  createRollupConfig(__dirname, { entry: 'conformance', external: ['vitest'] }),
+];
@@ -0,0 +1,43 @@
+import { Bridge, type NamespaceMessages, type TBridgeConfig } from '@tschannel/core';
+import { type MemoryChannel, createChannelPair } from './memory-channel';
+
+export type TBridgePair<Namespace extends NamespaceMessages> = {
+  main: Bridge<Namespace, MemoryChannel<'main'>>;
+  worker: Bridge<Namespace, MemoryChannel<'worker'>>;
+  /** Resolves when both bridges completed the handshake */
+  ready(): Promise<void>;
+  destroy(): void;
+};
+
+/**
+ * Two bridges of the namespace connected over their own in-memory channels
+ *
+ * @example
+ * ```typescript
+ * const { main, worker, ready } = createBridgePair(userNamespace, { timeout: 100 });
+ * worker.implement({ getUserData: ({ id }) => ({ id, name: 'Ann' }) });
+ * await ready();
+ *
+ * await main.client.getUserData({ id: '42' });
+ * ```
+ */
+export function createBridgePair<Namespace extends NamespaceMessages>(
+  namespace: Namespace,
+  config: TBridgeConfig = {}
+): TBridgePair<Namespace> {
+  const [mainChannel, workerChannel] = createChannelPair();
+  const main = new Bridge(namespace, mainChannel, config);
+  const worker = new Bridge(namespace, workerChannel, config);
+
+  return {
+    main,
+    worker,
+    ready: async (): Promise<void> => {
+      await Promise.all([main.ready(), worker.ready()]);
+    },
+    destroy: (): void => {
+      main.destroy();
+      worker.destroy();
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import type { IChannel, TBridgeSide, TChannelConfig, TInternalMessage } from '@tschannel/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+type TChannelPair = [IChannel<'main'>, IChannel<'worker'>];
+
+/**
+ * Creates two connected channels, main and worker, passing the config to both of them
+ */
+export type TChannelPairFactory = (
+  config: Omit<TChannelConfig<TBridgeSide>, 'side'>
+) => TChannelPair | Promise<TChannelPair>;
+
+export type TChannelConformanceOptions = {
+  /**
+   * Max time in ms to wait for a message to be delivered
+   * @default 1000
+   */
+  deliveryTimeout?: number;
+  /**
+   * Time in ms after which a message that should not be delivered is considered lost
+   * @default 50
+   */
+  settleTime?: number;
+};
+
+const DEFAULT_DELIVERY_TIMEOUT = 1000;
+const DEFAULT_SETTLE_TIME = 50;
+
+let frameCounter = 0;
+
+function createFrame(sender: TBridgeSide): TInternalMessage {
+  frameCounter++;
+  return {
+    id: `conformance-${frameCounter}`,
+    namespace: 'conformance',
+    name: 'ping',
+    sender,
+    type: 'event',
+    data: { text: 'ping', count: frameCounter },
+  };
+}
+
+// Channels may echo own frames (shared bus), only frames of the other side count
+function collectFrames(channel: IChannel<TBridgeSide>): Array<TInternalMessage> {
+  const frames: Array<TInternalMessage> = [];
+  channel.onMessage((frame) => {
+    if (frame.sender !== channel.side) {
+      frames.push(frame);
+    }
+  });
+  return frames;
+}
+
+/**
+ * Channels of the current test and helpers waiting for their frames
+ */
+class ConformanceRun {
+  private channels: Array<IChannel<TBridgeSide>> = [];
+  private deliveryTimeout: number;
+  private settleTime: number;
+
+  constructor(
+    private createPair: TChannelPairFactory,
+    options: TChannelConformanceOptions
+  ) {
+    this.deliveryTimeout = options.deliveryTimeout ?? DEFAULT_DELIVERY_TIMEOUT;
+    this.settleTime = options.settleTime ?? DEFAULT_SETTLE_TIME;
+  }
+
+  async create(config: Omit<TChannelConfig<TBridgeSide>, 'side'> = {}): Promise<TChannelPair> {
+    const pair = await this.createPair(config);
+    this.channels = pair;
+    return pair;
+  }
+
+  async setup(config: Omit<TChannelConfig<TBridgeSide>, 'side'> = {}): Promise<TChannelPair> {
+    const pair = await this.create(config);
+    await Promise.all(pair.map((channel) => channel.initialize()));
+    return pair;
+  }
+
+  async waitForFrames(
+    frames: Array<TInternalMessage>,
+    expected: Array<TInternalMessage>
+  ): Promise<void> {
+    await vi.waitFor(
+      () => {
+        expect(frames).toEqual(expected);
+      },
+      { timeout: this.deliveryTimeout }
+    );
+  }
+
+  // Give frames that must not arrive the time to do it
+  settle(): Promise<void> {
+    return new Promise((resolve) => {
+      setTimeout(resolve, this.settleTime);
+    });
+  }
+
+  destroy(): void {
+    this.channels.forEach((channel) => {
+      channel.destroy();
+    });
+    this.channels = [];
+  }
+}
+
+const CONFORMANCE_CASES: Array<[string, (run: ConformanceRun) => Promise<void>]> = [
+  [
+    'delivers frames to the other side in both directions',
+    async (run): Promise<void> => {
+      const [main, worker] = await run.setup();
+      const mainFrames = collectFrames(main);
+      const workerFrames = collectFrames(worker);
+      const fromMain = createFrame('main');
+      const fromWorker = createFrame('worker');
+
+      main.send(fromMain);
+      worker.send(fromWorker);
+
+      await run.waitForFrames(workerFrames, [fromMain]);
+      await run.waitForFrames(mainFrames, [fromWorker]);
+    },
+  ],
+  [
+    'ignores repeated initialize calls',
+    async (run): Promise<void> => {
+      const [main, worker] = await run.setup();
+      await main.initialize();
+      await worker.initialize();
+      const workerFrames = collectFrames(worker);
+      const frame = createFrame('main');
+
+      main.send(frame);
+      await run.waitForFrames(workerFrames, [frame]);
+      await run.settle();
+
+      expect(workerFrames).toEqual([frame]);
+    },
+  ],
+  [
+    'is ready between initialize and destroy',
+    async (run): Promise<void> => {
+      const [main, worker] = await run.create();
+      expect(main.isReady()).toBe(false);
+
+      await main.initialize();
+      await worker.initialize();
+      expect(main.isReady()).toBe(true);
+      expect(worker.isReady()).toBe(true);
+
+      main.destroy();
+      expect(main.isReady()).toBe(false);
+      expect(worker.isReady()).toBe(true);
+    },
+  ],
+  [
+    'fails to send before initialize and after destroy',
+    async (run): Promise<void> => {
+      const [main] = await run.create();
+      expect(() => {
+        main.send(createFrame('main'));
+      }).toThrow();
+
+      await main.initialize();
+      main.destroy();
+      expect(() => {
+        main.send(createFrame('main'));
+      }).toThrow();
+    },
+  ],
+  [
+    'stops delivering to a destroyed channel',
+    async (run): Promise<void> => {
+      const [main, worker] = await run.setup();
+      const workerFrames = collectFrames(worker);
+
+      worker.destroy();
+      main.send(createFrame('main'));
+      await run.settle();
+
+      expect(workerFrames).toEqual([]);
+    },
+  ],
+  [
+    'replaces the message handler on repeated onMessage calls',
+    async (run): Promise<void> => {
+      const [main, worker] = await run.setup();
+      const replacedFrames = collectFrames(worker);
+      const workerFrames = collectFrames(worker);
+      const frame = createFrame('main');
+
+      main.send(frame);
+      await run.waitForFrames(workerFrames, [frame]);
+      await run.settle();
+
+      expect(replacedFrames).toEqual([]);
+    },
+  ],
+  [
+    'passes frames through the configured serializer',
+    async (run): Promise<void> => {
+      const serialize = vi.fn((message: TInternalMessage) => JSON.stringify(message));
+      const deserialize = vi.fn((data: unknown) => JSON.parse(data as string) as TInternalMessage);
+      const [main, worker] = await run.setup({ serializer: { serialize, deserialize } });
+      const workerFrames = collectFrames(worker);
+      const frame = createFrame('main');
+
+      main.send(frame);
+      await run.waitForFrames(workerFrames, [frame]);
+
+      expect(serialize).toHaveBeenCalledWith(frame);
+      expect(deserialize).toHaveBeenCalledWith(JSON.stringify(frame));
+    },
+  ],
+];
+
+/**
+ * Register vitest cases checking that a channel behaves like the built-in ones:
+ * frames reach the other side, `initialize` is idempotent, `isReady` follows initialize/destroy,
+ * `send` fails after destroy, `onMessage` replaces the handler and the configured serializer is used.
+ * Call it at the top level of a test file.
+ *
+ * @example
+ * ```typescript
+ * describeChannelConformance('WebSocketChannel', ({ serializer }) => {
+ *   const server = new FakeServer();
+ *   return [
+ *     new WebSocketChannel({ side: 'main', serializer, url: server.url }),
+ *     new WebSocketChannel({ side: 'worker', serializer, url: server.url }),
+ *   ];
+ * });
+ * ```
+ */
+export function describeChannelConformance(
+  name: string,
+  createPair: TChannelPairFactory,
+  options: TChannelConformanceOptions = {}
+): void {
+  const run = new ConformanceRun(createPair, options);
+
+  describe(`${name} conformance`, () => {
+    afterEach(() => {
+      run.destroy();
+    });
+
+    CONFORMANCE_CASES.forEach(([title, testCase]) => {
+      it(title, () => testCase(run));
+    });
+  });
+}
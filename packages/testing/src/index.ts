@@ -0,0 +1,5 @@
+export { MemoryChannel, createChannelPair } from './memory-channel';
+export { createBridgePair } from './bridge-pair';
+export type { TBridgePair } from './bridge-pair';
+export { BridgeMock, MessageStub, mockBridge } from './mock';
+export type { TBridgeMockCalls, TBridgeMockHandlers, TBridgeMockOptions } from './mock';
@@ -0,0 +1,97 @@
+import {
+  DEFAULT_SERIALIZER,
+  type IChannel,
+  type TBridgeSide,
+  type TChannelConfig,
+  type TInternalMessage,
+  type TSerializer,
+} from '@tschannel/core';
+
+type TRemoteSide<TSide extends TBridgeSide> = TSide extends 'main' ? 'worker' : 'main';
+
+/**
+ * In-memory channel connected to exactly one peer channel, see createChannelPair.
+ * Messages are delivered in a microtask like a real transport would do asynchronously,
+ * so it works with fake timers: timers are faked, microtasks are not.
+ */
+export class MemoryChannel<TSide extends TBridgeSide> implements IChannel<TSide> {
+  readonly side: TSide;
+  private messageHandler?: (message: TInternalMessage) => void;
+  private isInitialized = false;
+  private serializer: TSerializer;
+  private peer?: MemoryChannel<TBridgeSide>;
+
+  constructor(config: TChannelConfig<TSide>) {
+    this.side = config.side;
+    this.serializer = config.serializer || DEFAULT_SERIALIZER;
+  }
+
+  /**
+   * Connect the channel with its peer, both directions
+   */
+  connect(peer: MemoryChannel<TRemoteSide<TSide>>): void {
+    this.peer = peer;
+    peer.peer = this;
+  }
+
+  initialize(): void {
+    this.isInitialized = true;
+  }
+
+  /**
+   * Send a message to the peer channel
+   *
+   * @throws Error if channel is not ready
+   */
+  send(message: TInternalMessage): void {
+    if (!this.isReady()) {
+      throw new Error('MemoryChannel is not ready');
+    }
+
+    const serialized = this.serializer.serialize(message);
+    const peer = this.peer;
+    queueMicrotask(() => {
+      peer?.receive(serialized);
+    });
+  }
+
+  onMessage(handler: (message: TInternalMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  destroy(): void {
+    this.messageHandler = undefined;
+    this.isInitialized = false;
+  }
+
+  // Messages for a peer that is not listening are lost, like on a real transport
+  private receive(data: unknown): void {
+    if (!this.isInitialized || !this.messageHandler) {
+      return;
+    }
+    this.messageHandler(this.serializer.deserialize(data));
+  }
+}
+
+/**
+ * Two channels connected only with each other, no shared global bus to reset between tests
+ *
+ * @example
+ * ```typescript
+ * const [mainChannel, workerChannel] = createChannelPair();
+ * const bridgeMain = new Bridge(namespace, mainChannel);
+ * const bridgeWorker = new Bridge(namespace, workerChannel);
+ * ```
+ */
+export function createChannelPair(
+  config: Omit<TChannelConfig<TBridgeSide>, 'side'> = {}
+): [MemoryChannel<'main'>, MemoryChannel<'worker'>] {
+  const mainChannel = new MemoryChannel({ ...config, side: 'main' });
+  const workerChannel = new MemoryChannel({ ...config, side: 'worker' });
+  mainChannel.connect(workerChannel);
+  return [mainChannel, workerChannel];
+}
@@ -0,0 +1,215 @@
+import {
+  Bridge,
+  type NamespaceMessages,
+  type TBridgeConfig,
+  type TBridgeImplementation,
+  type TBridgeSide,
+  canSendFromSide,
+} from '@tschannel/core';
+import { type MemoryChannel, createChannelPair } from './memory-channel';
+
+type TRemoteSide<TSide extends TBridgeSide> = TSide extends 'main' ? 'worker' : 'main';
+
+type TPayloadOf<THandler> = THandler extends (payload: infer TPayload, context: never) => unknown
+  ? TPayload
+  : never;
+
+// Streams are stubbed with the list of chunks
+type TStubbedResponseOf<THandler> = THandler extends (
+  payload: never,
+  context: never
+) => AsyncIterable<infer TChunk>
+  ? Array<TChunk>
+  : THandler extends (payload: never, context: never) => infer TResult
+    ? Awaited<TResult>
+    : never;
+
+type TMockedHandlers<Namespace, TSide extends TBridgeSide> = TBridgeImplementation<
+  Namespace,
+  TSide
+>;
+
+// Handlers the mocked bridge accepts in implement()
+type TBridgeMockImplementation<
+  Namespace extends NamespaceMessages,
+  TSide extends TBridgeSide,
+> = Parameters<Bridge<Namespace, MemoryChannel<TSide>>['implement']>[0];
+
+/**
+ * Stubs for every message the mocked side receives
+ */
+export type TBridgeMockHandlers<Namespace, TSide extends TBridgeSide> = {
+  readonly [K in keyof TMockedHandlers<Namespace, TSide>]: MessageStub<
+    TPayloadOf<TMockedHandlers<Namespace, TSide>[K]>,
+    TStubbedResponseOf<TMockedHandlers<Namespace, TSide>[K]>
+  >;
+};
+
+/**
+ * Received payloads of every message the mocked side receives, in the order of calls
+ */
+export type TBridgeMockCalls<Namespace, TSide extends TBridgeSide> = {
+  readonly [K in keyof TMockedHandlers<Namespace, TSide>]: ReadonlyArray<
+    TPayloadOf<TMockedHandlers<Namespace, TSide>[K]>
+  >;
+};
+
+export type TBridgeMockOptions<TSide extends TBridgeSide> = TBridgeConfig & {
+  /**
+   * Side of the mocked bridge, the bridge under test is on the other one
+   * @default 'worker'
+   */
+  side?: TSide;
+};
+
+type TStubbedAnswer =
+  | { isRejected: false; response: unknown }
+  | { isRejected: true; error: unknown };
+
+/**
+ * Stubbed handler of one message, configure it in the test and read its calls
+ */
+export class MessageStub<TPayload, TResponse> {
+  readonly calls: Array<TPayload> = [];
+  private answer?: TStubbedAnswer;
+  private delayMs = 0;
+
+  constructor(
+    private messageName: string,
+    private shouldRespond: boolean
+  ) {}
+
+  /**
+   * Answer calls with the response, list of chunks for streams
+   */
+  respondWith(response: TResponse): this {
+    this.answer = { isRejected: false, response };
+    return this;
+  }
+
+  /**
+   * Fail calls with the error, the caller receives it as a remote error
+   */
+  rejectWith(error: unknown): this {
+    this.answer = { isRejected: true, error };
+    return this;
+  }
+
+  /**
+   * Wait before answering, advance fake timers to let the answer through
+   */
+  delay(ms: number): this {
+    this.delayMs = ms;
+    return this;
+  }
+
+  /**
+   * Forget calls and stubbed behaviour
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.answer = undefined;
+    this.delayMs = 0;
+  }
+
+  /**
+   * Record the call and answer it as stubbed, called by the mocked bridge
+   */
+  async handle(payload: TPayload): Promise<TResponse> {
+    this.calls.push(payload);
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => {
+        setTimeout(resolve, this.delayMs);
+      });
+    }
+
+    if (this.answer?.isRejected) {
+      throw this.answer.error;
+    }
+    if (!this.answer && this.shouldRespond) {
+      throw new Error(`No response stubbed for message "${this.messageName}"`);
+    }
+    return this.answer?.response as TResponse;
+  }
+}
+
+/**
+ * Bridge of the remote side with stubbed handlers, see mockBridge
+ */
+export class BridgeMock<Namespace extends NamespaceMessages, TSide extends TBridgeSide> {
+  /** Mocked bridge, use it to send requests and events to the bridge under test */
+  readonly bridge: Bridge<Namespace, MemoryChannel<TSide>>;
+  /** Pass it to the bridge under test */
+  readonly channel: MemoryChannel<TRemoteSide<TSide>>;
+  readonly handlers: TBridgeMockHandlers<Namespace, TSide>;
+  readonly calls: TBridgeMockCalls<Namespace, TSide>;
+  private stubs: Array<MessageStub<unknown, unknown>> = [];
+
+  constructor(namespace: Namespace, side: TSide, config: TBridgeConfig = {}) {
+    const [mainChannel, workerChannel] = createChannelPair();
+    const [ownChannel, remoteChannel] =
+      side === 'main' ? [mainChannel, workerChannel] : [workerChannel, mainChannel];
+    this.bridge = new Bridge(namespace, ownChannel as MemoryChannel<TSide>, config);
+    this.channel = remoteChannel as MemoryChannel<TRemoteSide<TSide>>;
+
+    const handlers: Record<string, MessageStub<unknown, unknown>> = {};
+    const calls: Record<string, ReadonlyArray<unknown>> = {};
+    const implementation: Record<string, unknown> = {};
+    const remoteSide: TBridgeSide = side === 'main' ? 'worker' : 'main';
+    namespace.messages
+      .filter(({ direction }) => canSendFromSide(direction, remoteSide))
+      .forEach(({ name, kind }) => {
+        const stub = new MessageStub<unknown, unknown>(name, kind !== 'event');
+        this.stubs.push(stub);
+        handlers[name] = stub;
+        calls[name] = stub.calls;
+        implementation[name] =
+          kind === 'stream'
+            ? async function* (payload: unknown): AsyncIterable<unknown> {
+                yield* (await stub.handle(payload)) as Array<unknown>;
+              }
+            : (payload: unknown): Promise<unknown> => stub.handle(payload);
+      });
+
+    this.handlers = handlers as TBridgeMockHandlers<Namespace, TSide>;
+    this.calls = calls as TBridgeMockCalls<Namespace, TSide>;
+    this.bridge.implement(implementation as TBridgeMockImplementation<Namespace, TSide>);
+  }
+
+  /**
+   * Forget calls and stubbed behaviour of all messages
+   */
+  reset(): void {
+    this.stubs.forEach((stub) => {
+      stub.reset();
+    });
+  }
+
+  destroy(): void {
+    this.bridge.destroy();
+  }
+}
+
+/**
+ * Mock of the remote bridge: every message it receives is answered by a typed stub.
+ * Unstubbed requests fail, so a test states the answers it relies on.
+ * Delivery is in-memory without timers, timeouts and delays follow fake timers.
+ *
+ * @example
+ * ```typescript
+ * const mock = mockBridge(userNamespace);
+ * const bridge = new Bridge(userNamespace, mock.channel);
+ * await bridge.ready();
+ *
+ * mock.handlers.getUserData.respondWith({ name: 'Ann' });
+ * await bridge.client.getUserData({ id: '42' });
+ * expect(mock.calls.getUserData).toEqual([{ id: '42' }]);
+ * ```
+ */
+export function mockBridge<
+  Namespace extends NamespaceMessages,
+  TSide extends TBridgeSide = 'worker',
+>(namespace: Namespace, options: TBridgeMockOptions<TSide> = {}): BridgeMock<Namespace, TSide> {
+  const { side = 'worker' as TSide, ...config } = options;
+  return new BridgeMock(namespace, side, config);
+}
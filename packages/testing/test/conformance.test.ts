@@ -0,0 +1,4 @@
+import { createChannelPair } from '../src';
+import { describeChannelConformance } from '../src/conformance';
+
+describeChannelConformance('MemoryChannel', (config) => createChannelPair(config));
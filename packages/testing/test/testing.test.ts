@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Bridge, NamespaceBuilder } from '@tschannel/core';
+import { type BridgeMock, type MemoryChannel, createBridgePair, mockBridge } from '../src';
+
+const userNamespace = new NamespaceBuilder('users')
+  .mainToWorkerMessage<{ id: string }, { name: string }>()('getUserData')
+  .mainToWorkerStream<string, number>()('search')
+  .mainToWorkerEvent<string>()('track')
+  .workerToMainMessage<void, string>()('getLocale')
+  .build();
+
+describe('createBridgePair', () => {
+  it('connects two bridges without a shared bus', async () => {
+    const first = createBridgePair(userNamespace);
+    const second = createBridgePair(userNamespace);
+    first.worker.implement({
+      getUserData: ({ id }) => ({ name: `first ${id}` }),
+      search: async function* () {
+        yield 1;
+      },
+      track: () => undefined,
+    });
+    second.worker.implement({
+      getUserData: ({ id }) => ({ name: `second ${id}` }),
+      search: async function* () {
+        yield 2;
+      },
+      track: () => undefined,
+    });
+    await Promise.all([first.ready(), second.ready()]);
+
+    await expect(first.main.client.getUserData({ id: '1' })).resolves.toEqual({ name: 'first 1' });
+    await expect(second.main.client.getUserData({ id: '1' })).resolves.toEqual({
+      name: 'second 1',
+    });
+
+    first.destroy();
+    second.destroy();
+  });
+});
+
+describe('mockBridge', () => {
+  let mock: BridgeMock<typeof userNamespace, 'worker'>;
+  let bridge: Bridge<typeof userNamespace, MemoryChannel<'main'>>;
+
+  beforeEach(async () => {
+    mock = mockBridge(userNamespace, { timeout: 100 });
+    bridge = new Bridge(userNamespace, mock.channel, { timeout: 1000 });
+    await bridge.ready();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    bridge.destroy();
+    mock.destroy();
+  });
+
+  it('answers with stubbed responses and records calls', async () => {
+    // @ts-expect-error - response of another shape
+    mock.handlers.getUserData.respondWith({ title: 'Ann' });
+    // @ts-expect-error - the worker doesn't receive getLocale
+    expect(mock.handlers.getLocale).toBeUndefined();
+    mock.handlers.getUserData.respondWith({ name: 'Ann' });
+    mock.handlers.search.respondWith([1, 2, 3]);
+
+    await expect(bridge.client.getUserData({ id: '42' })).resolves.toEqual({ name: 'Ann' });
+    const chunks: Array<number> = [];
+    for await (const chunk of bridge.client.search('an')) {
+      chunks.push(chunk);
+    }
+    await bridge.client.track('opened');
+    await vi.waitFor(() => {
+      expect(mock.calls.track).toEqual(['opened']);
+    });
+
+    expect(chunks).toEqual([1, 2, 3]);
+    expect(mock.calls.getUserData).toEqual([{ id: '42' }]);
+    expect(mock.calls.search).toEqual(['an']);
+  });
+
+  it('rejects with stubbed errors and fails unstubbed requests', async () => {
+    await expect(bridge.client.getUserData({ id: '1' })).rejects.toThrow(
+      'No response stubbed for message "getUserData"'
+    );
+
+    mock.handlers.getUserData.rejectWith(new Error('Not found'));
+    await expect(bridge.client.getUserData({ id: '2' })).rejects.toThrow('Not found');
+    expect(mock.calls.getUserData).toEqual([{ id: '1' }, { id: '2' }]);
+  });
+
+  it('delays answers under fake timers', async () => {
+    vi.useFakeTimers();
+    mock.handlers.getUserData.respondWith({ name: 'Ann' }).delay(500);
+
+    const response = bridge.client.getUserData({ id: '42' });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(mock.calls.getUserData).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(response).resolves.toEqual({ name: 'Ann' });
+
+    mock.handlers.getUserData.delay(2000);
+    const timedOut = expect(bridge.client.getUserData({ id: '42' })).rejects.toThrow(
+      Bridge.ERRORS.TIMEOUT('getUserData')
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    await timedOut;
+  });
+
+  it('resets calls and stubs, sends messages of the mocked side', async () => {
+    mock.handlers.getUserData.respondWith({ name: 'Ann' });
+    await bridge.client.getUserData({ id: '42' });
+    mock.reset();
+
+    expect(mock.calls.getUserData).toEqual([]);
+    await expect(bridge.client.getUserData({ id: '42' })).rejects.toThrow('No response stubbed');
+
+    bridge.implement({ getLocale: () => 'de' });
+    await expect(mock.bridge.client.getLocale()).resolves.toBe('de');
+  });
+
+  it('mocks the main side', async () => {
+    const mainMock = mockBridge(userNamespace, { side: 'main' });
+    const worker = new Bridge(userNamespace, mainMock.channel);
+    worker.implement({
+      getUserData: () => ({ name: 'Ann' }),
+      search: async function* () {
+        yield 1;
+      },
+      track: () => undefined,
+    });
+    await worker.ready();
+
+    mainMock.handlers.getLocale.respondWith('en');
+    await expect(worker.client.getLocale()).resolves.toBe('en');
+    expect(mainMock.calls.getLocale).toEqual([undefined]);
+
+    worker.destroy();
+    mainMock.destroy();
+  });
+});
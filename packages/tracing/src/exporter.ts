@@ -0,0 +1,27 @@
+import type { TSpan } from './span';
+
+/**
+ * Receives every finished span, implement it to forward spans to your tracer
+ */
+export interface ISpanExporter {
+  export(span: TSpan): void;
+}
+
+/**
+ * Keeps finished spans in memory, for tests and debugging
+ */
+export class InMemorySpanExporter implements ISpanExporter {
+  private spans: Array<TSpan> = [];
+
+  export(span: TSpan): void {
+    this.spans.push(span);
+  }
+
+  getFinishedSpans(): ReadonlyArray<TSpan> {
+    return this.spans.slice();
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
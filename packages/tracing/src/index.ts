@@ -0,0 +1,7 @@
+export { createTracingMiddleware, SPAN_STATE_KEY } from './tracing';
+export type { TTracingOptions } from './tracing';
+export { InMemorySpanExporter } from './exporter';
+export type { ISpanExporter } from './exporter';
+export type { TSpan, TSpanAttributes, TSpanErrorType, TSpanKind } from './span';
+export { TRACEPARENT_HEADER, formatTraceparent, parseTraceparent } from './traceparent';
+export type { TSpanContext } from './traceparent';
@@ -0,0 +1,47 @@
+import type { TMiddlewareContext, TMiddlewarePipeline } from '@tschannel/core';
+import type { TSpanContext } from './traceparent';
+
+/**
+ * - 'client' / 'server' - request and stream, on the dispatching and the handling side
+ * - 'producer' / 'consumer' - event, on the emitting and the handling side
+ */
+export type TSpanKind = 'client' | 'server' | 'producer' | 'consumer';
+
+/**
+ * - 'timeout' - no answer in time
+ * - 'remote' - handler on the other side failed
+ * - 'aborted' - cancelled with AbortSignal or by the consumer
+ * - 'error' - any other failure: validation, middleware, local handler
+ */
+export type TSpanErrorType = 'timeout' | 'remote' | 'aborted' | 'error';
+
+export type TSpanAttributes = { [name: string]: string | number | boolean };
+
+/**
+ * Finished span of a single message on one bridge side
+ */
+export type TSpan = {
+  /** `namespace:messageName` */
+  name: string;
+  kind: TSpanKind;
+  context: TSpanContext;
+  /** Span id of the parent, undefined for root spans */
+  parentSpanId?: string;
+  /** ms since epoch */
+  startTime: number;
+  endTime: number;
+  status: 'ok' | 'error';
+  errorType?: TSpanErrorType;
+  error?: Error;
+  attributes: TSpanAttributes;
+};
+
+export function getSpanKind(
+  pipeline: TMiddlewarePipeline,
+  kind: TMiddlewareContext['kind']
+): TSpanKind {
+  if (kind === 'event') {
+    return pipeline === 'dispatch' ? 'producer' : 'consumer';
+  }
+  return pipeline === 'dispatch' ? 'client' : 'server';
+}
@@ -0,0 +1,62 @@
+/**
+ * Position of a span in a trace, propagated between bridge sides in the `traceparent` header
+ */
+export type TSpanContext = {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  isSampled: boolean;
+};
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+// W3C Trace Context: version-traceId-spanId-flags
+const TRACEPARENT_VERSION = '00';
+const INVALID_VERSION = 'ff';
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const ZERO_ID_PATTERN = /^0+$/;
+const HEX_RADIX = 16;
+const SAMPLED_FLAG = 1;
+
+export const TRACE_ID_LENGTH = 32;
+export const SPAN_ID_LENGTH = 16;
+
+export function formatTraceparent(context: TSpanContext): string {
+  const flags = context.isSampled ? '01' : '00';
+  return `${TRACEPARENT_VERSION}-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Returns undefined for missing or malformed headers, the span then starts a new trace
+ */
+export function parseTraceparent(header: string | undefined): TSpanContext | undefined {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags] = match;
+  if (
+    version === INVALID_VERSION ||
+    ZERO_ID_PATTERN.test(traceId) ||
+    ZERO_ID_PATTERN.test(spanId)
+  ) {
+    return undefined;
+  }
+
+  return {
+    traceId,
+    spanId,
+    isSampled: (parseInt(flags, HEX_RADIX) & SAMPLED_FLAG) === SAMPLED_FLAG,
+  };
+}
+
+export function generateTraceId(length: number): string {
+  let id = '';
+  for (let index = 0; index < length; index++) {
+    id += Math.floor(Math.random() * HEX_RADIX).toString(HEX_RADIX);
+  }
+  // All-zero ids are invalid
+  return ZERO_ID_PATTERN.test(id) ? generateTraceId(length) : id;
+}
@@ -0,0 +1,161 @@
+import {
+  type TErrorOutcome,
+  type TMiddleware,
+  type TMiddlewareContext,
+  getErrorOutcome,
+} from '@tschannel/core';
+import type { ISpanExporter } from './exporter';
+import { type TSpan, type TSpanErrorType, getSpanKind } from './span';
+import {
+  SPAN_ID_LENGTH,
+  TRACEPARENT_HEADER,
+  TRACE_ID_LENGTH,
+  type TSpanContext,
+  formatTraceparent,
+  generateTraceId,
+  parseTraceparent,
+} from './traceparent';
+
+export type TTracingOptions = {
+  exporter: ISpanExporter;
+  /**
+   * Parent of spans started on dispatch, e.g. the active span of your tracer.
+   * A `traceparent` header passed to the dispatch takes precedence.
+   * Without both every dispatch starts a new trace.
+   */
+  getParentContext?(): TSpanContext | undefined;
+};
+
+/**
+ * Key of the span context in TMiddlewareContext.state, for middleware registered after tracing
+ */
+export const SPAN_STATE_KEY = 'tracing.span';
+
+const SPAN_ERROR_TYPES: { [TOutcome in TErrorOutcome]: TSpanErrorType } = {
+  remoteError: 'remote',
+  timeout: 'timeout',
+  cancel: 'aborted',
+  error: 'error',
+};
+
+/**
+ * Incoming requests continue the trace of the header, dispatches the one of the header set by the caller
+ */
+function getParentContext(
+  ctx: TMiddlewareContext,
+  options: TTracingOptions
+): TSpanContext | undefined {
+  const headerContext = parseTraceparent(ctx.headers[TRACEPARENT_HEADER]);
+  if (headerContext || ctx.pipeline !== 'dispatch') {
+    return headerContext;
+  }
+  return options.getParentContext?.();
+}
+
+function startSpan(ctx: TMiddlewareContext, parent: TSpanContext | undefined): TSpan {
+  return {
+    name: `${ctx.namespace}:${ctx.name}`,
+    kind: getSpanKind(ctx.pipeline, ctx.kind),
+    context: {
+      traceId: parent?.traceId ?? generateTraceId(TRACE_ID_LENGTH),
+      spanId: generateTraceId(SPAN_ID_LENGTH),
+      isSampled: parent?.isSampled ?? true,
+    },
+    ...(parent && { parentSpanId: parent.spanId }),
+    startTime: Date.now(),
+    endTime: 0,
+    status: 'ok',
+    attributes: {
+      'bridge.namespace': ctx.namespace,
+      'bridge.message': ctx.name,
+      'bridge.kind': ctx.kind,
+    },
+  };
+}
+
+/**
+ * Span of a stream lasts until the last chunk is read, or until the consumer stops reading.
+ * The span of a stream that is never read is never ended and never exported, nothing stays open for it.
+ */
+async function* traceStream(
+  source: AsyncIterable<unknown>,
+  span: TSpan,
+  finish: (error?: Error, errorType?: TSpanErrorType) => void
+): AsyncIterableIterator<unknown> {
+  let chunks = 0;
+  let isFinished = false;
+  try {
+    for await (const chunk of source) {
+      chunks++;
+      yield chunk;
+    }
+    isFinished = true;
+    span.attributes['bridge.chunks'] = chunks;
+    finish();
+  } catch (error) {
+    isFinished = true;
+    span.attributes['bridge.chunks'] = chunks;
+    finish(error as Error);
+    throw error;
+  } finally {
+    // Consumer stopped reading before the end
+    if (!isFinished) {
+      span.attributes['bridge.chunks'] = chunks;
+      finish(undefined, 'aborted');
+    }
+  }
+}
+
+/**
+ * Middleware starting a span per message on both bridge sides.
+ * The dispatching side sends its span context in the `traceparent` header,
+ * the handling side continues the trace and passes its own span context to the handler in the same header.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * bridge.use(createTracingMiddleware({ exporter, getParentContext: () => tracer.activeSpanContext() }));
+ *
+ * bridge.listen(message.getUserData, (payload, { headers }) => {
+ *   const spanContext = parseTraceparent(headers.traceparent);
+ * });
+ * ```
+ */
+export function createTracingMiddleware(options: TTracingOptions): TMiddleware {
+  return async (ctx, next) => {
+    const span = startSpan(ctx, getParentContext(ctx, options));
+    ctx.headers[TRACEPARENT_HEADER] = formatTraceparent(span.context);
+    ctx.state[SPAN_STATE_KEY] = span.context;
+
+    const finish = (
+      error?: Error,
+      errorType = error && SPAN_ERROR_TYPES[getErrorOutcome(error)]
+    ): void => {
+      span.endTime = Date.now();
+      if (errorType) {
+        span.status = 'error';
+        span.errorType = errorType;
+      }
+      if (error) {
+        span.error = error;
+      }
+      // Not sampled by the parent, the context is still passed on with the flag unset
+      if (span.context.isSampled) {
+        options.exporter.export(span);
+      }
+    };
+
+    try {
+      await next();
+    } catch (error) {
+      finish(error as Error);
+      throw error;
+    }
+
+    if (ctx.kind === 'stream') {
+      ctx.response = traceStream(ctx.response as AsyncIterable<unknown>, span, finish);
+    } else {
+      finish();
+    }
+  };
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Bridge, NamespaceBuilder } from '@tschannel/core';
+import { PubSubChannel } from '@tschannel/pubsub-channel';
+import {
+  InMemorySpanExporter,
+  createTracingMiddleware,
+  formatTraceparent,
+  parseTraceparent,
+} from '../src';
+
+const appNamespace = new NamespaceBuilder('traced')
+  .mainToWorkerMessage<string, string>()('echo')
+  .mainToWorkerMessage<void, void>()('fail')
+  .mainToWorkerMessage<void, void>()('hang')
+  .mainToWorkerStream<number, number>()('countTo')
+  .build();
+
+const parentContext = {
+  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+  spanId: '00f067aa0ba902b7',
+  isSampled: true,
+};
+
+describe('traceparent', () => {
+  it('formats and parses span context', () => {
+    const header = formatTraceparent(parentContext);
+
+    expect(header).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+    expect(parseTraceparent(header)).toEqual(parentContext);
+    expect(parseTraceparent(header.replace(/-01$/, '-00'))).toEqual({
+      ...parentContext,
+      isSampled: false,
+    });
+  });
+
+  it('ignores malformed headers', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(
+      parseTraceparent(`ff-${parentContext.traceId}-${parentContext.spanId}-01`)
+    ).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${parentContext.spanId}-01`)).toBeUndefined();
+  });
+});
+
+describe('createTracingMiddleware', () => {
+  let bridgeMain: Bridge<typeof appNamespace, PubSubChannel<'main'>>;
+  let bridgeWorker: Bridge<typeof appNamespace, PubSubChannel<'worker'>>;
+  let mainExporter: InMemorySpanExporter;
+  let workerExporter: InMemorySpanExporter;
+  let handlerTraceparent: string | undefined;
+
+  beforeEach(async () => {
+    const eventBus = new EventTarget();
+    bridgeMain = new Bridge(appNamespace, new PubSubChannel({ side: 'main', eventBus }), {
+      timeout: 50,
+    });
+    bridgeWorker = new Bridge(appNamespace, new PubSubChannel({ side: 'worker', eventBus }));
+    mainExporter = new InMemorySpanExporter();
+    workerExporter = new InMemorySpanExporter();
+    bridgeMain.use(
+      createTracingMiddleware({ exporter: mainExporter, getParentContext: () => parentContext })
+    );
+    bridgeWorker.use(createTracingMiddleware({ exporter: workerExporter }));
+
+    bridgeWorker.implement({
+      echo: (text, { headers }) => {
+        handlerTraceparent = headers.traceparent;
+        return text;
+      },
+      fail: () => {
+        throw new Error('Broken');
+      },
+      hang: () => new Promise<void>(() => undefined),
+      countTo: async function* (limit) {
+        for (let value = 1; value <= limit; value++) {
+          yield value;
+        }
+      },
+    });
+    await Promise.all([bridgeMain.ready(), bridgeWorker.ready()]);
+  });
+
+  it('continues the dispatch span on the handling side', async () => {
+    await bridgeMain.client.echo('hi');
+
+    const [clientSpan] = mainExporter.getFinishedSpans();
+    const [serverSpan] = workerExporter.getFinishedSpans();
+    expect(clientSpan).toMatchObject({
+      name: 'traced:echo',
+      kind: 'client',
+      status: 'ok',
+      parentSpanId: parentContext.spanId,
+      context: { traceId: parentContext.traceId },
+    });
+    expect(serverSpan).toMatchObject({
+      kind: 'server',
+      status: 'ok',
+      parentSpanId: clientSpan.context.spanId,
+      context: { traceId: parentContext.traceId },
+    });
+    expect(handlerTraceparent).toBe(formatTraceparent(serverSpan.context));
+    expect(clientSpan.endTime).toBeGreaterThanOrEqual(serverSpan.endTime);
+  });
+
+  it('continues the trace of a traceparent header passed to the dispatch', async () => {
+    const callerContext = { ...parentContext, spanId: 'b7ad6b7169203331' };
+
+    await bridgeMain.client.echo('hi', {
+      headers: { traceparent: formatTraceparent(callerContext) },
+    });
+
+    const [clientSpan] = mainExporter.getFinishedSpans();
+    expect(clientSpan.parentSpanId).toBe(callerContext.spanId);
+    expect(handlerTraceparent).toBe(
+      formatTraceparent(workerExporter.getFinishedSpans()[0].context)
+    );
+  });
+
+  it('passes on the context of unsampled traces without exporting their spans', async () => {
+    const traceparent = formatTraceparent({ ...parentContext, isSampled: false });
+
+    await bridgeMain.client.echo('hi', { headers: { traceparent } });
+
+    expect(mainExporter.getFinishedSpans()).toEqual([]);
+    expect(workerExporter.getFinishedSpans()).toEqual([]);
+    expect(parseTraceparent(handlerTraceparent)).toMatchObject({
+      traceId: parentContext.traceId,
+      isSampled: false,
+    });
+  });
+
+  it('records remote errors and timeouts', async () => {
+    await expect(bridgeMain.client.fail()).rejects.toThrow('Broken');
+    await expect(bridgeMain.client.hang()).rejects.toThrow(Bridge.ERRORS.TIMEOUT('hang'));
+
+    expect(mainExporter.getFinishedSpans().map((span) => span.errorType)).toEqual([
+      'remote',
+      'timeout',
+    ]);
+    expect(workerExporter.getFinishedSpans()[0]).toMatchObject({
+      status: 'error',
+      errorType: 'error',
+    });
+  });
+
+  it('ends stream spans after the last chunk', async () => {
+    const chunks: Array<number> = [];
+    for await (const chunk of bridgeMain.client.countTo(3)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2, 3]);
+    expect(mainExporter.getFinishedSpans()[0].attributes['bridge.chunks']).toBe(3);
+    expect(workerExporter.getFinishedSpans()[0].attributes['bridge.chunks']).toBe(3);
+  });
+
+  it('ends stream spans as aborted when the consumer stops early', async () => {
+    for await (const chunk of bridgeMain.client.countTo(3)) {
+      if (chunk === 2) {
+        break;
+      }
+    }
+
+    expect(mainExporter.getFinishedSpans()[0]).toMatchObject({
+      status: 'error',
+      errorType: 'aborted',
+      attributes: { 'bridge.chunks': 2 },
+    });
+    expect(mainExporter.getFinishedSpans()[0].endTime).toBeGreaterThan(0);
+  });
+});